@@ -1,44 +1,34 @@
 /**
- * SmartCall RPA SDK - 完全なサンプル（サーバー + ワーカー統合）
+ * SmartCall RPA SDK - 完全なサンプル（セッション + サーバー統合）
  *
- * 1つのファイルでサーバーとワーカーを起動するサンプルです。
- * sync-cycleリクエストを受け取り、ジョブを登録し、
- * ワーカーがPlaywrightでブラウザ操作を実行してコールバックを送信します。
+ * 1つのファイルで常駐ブラウザセッションとサーバーを起動するサンプルです。
+ * sync-cycleリクエストを受け取って即座にレスポンスを返し、
+ * ログイン済みのページでブラウザ操作を実行してコールバックを送信します。
  *
  * 実行方法:
- *   SMARTCALL_MODE=stub npx ts-node examples/full-example.ts
+ *   npx ts-node examples/full-example.ts
  *
  * テスト:
  *   curl -X POST http://localhost:3000/beautymerit/sync-cycle \
  *     -H "Content-Type: application/json" \
  *     -d '{
- *       "job_id": "JOB-001",
+ *       "job_id": "550e8400-e29b-41d4-a716-446655440000",
  *       "external_shop_id": "SHOP-001",
- *       "action": "fetch_slots",
  *       "callback_url": "https://httpbin.org/post"
  *     }'
  */
 
 import express from 'express';
 import {
-  createQueue,
-  createWorker,
-  createSyncCycleHandler,
   addHealthCheck,
-  BrowserManager,
-  ScreenshotManager,
-  sendCallback,
-  createRpaLogger,
-  getOptionalCredentials,
+  BaseBrowserSessionManager,
   BasePage,
-  type RpaJobData,
+  buildSlotsFromIntervals,
+  createSyncCycleHandler,
+  getOptionalCredentials,
+  type OpenInterval,
 } from '../src/index.js';
 
-// ============================================
-// キュー定義
-// ============================================
-const syncQueue = createQueue<RpaJobData>('sync');
-
 // ============================================
 // ログインページ Page Object
 // ============================================
@@ -57,108 +47,30 @@ class LoginPage extends BasePage {
 }
 
 // ============================================
-// ワーカー定義
+// セッション定義
 // ============================================
-const syncWorker = createWorker<RpaJobData>('sync', async (job) => {
-  const jobId = job.id ?? `job-${Date.now()}`;
-  const data = job.data;
-
-  const logger = createRpaLogger({ jobId, queueName: 'sync' });
-  const browserManager = new BrowserManager({ headless: true });
-  const screenshot = new ScreenshotManager(jobId, { baseDir: './screenshots' });
-
-  logger.info({ shopId: data.external_shop_id, action: data.action }, 'Processing job');
-
-  try {
-    // ブラウザ起動
-    const { page } = await browserManager.launch();
-    logger.info('Browser launched');
-
+class DevPortalSessionManager extends BaseBrowserSessionManager {
+  protected async performLogin(): Promise<void> {
     // 認証情報取得（環境変数またはデフォルト値）
     const credentials = getOptionalCredentials() || {
       loginKey: 'testuser',
       loginPassword: 'dd!df0-fmmdr',
     };
 
-    // ログインページに遷移
-    await page.goto('https://dev-portal.smartcall.jp/login');
-    await screenshot.captureStep(page, '01-login-page');
-
-    // ログイン実行
-    const loginPage = new LoginPage(page);
-    await loginPage.login(credentials.loginKey, credentials.loginPassword);
-    await screenshot.captureStep(page, '02-after-login');
-    logger.info('Login successful');
-
-    // ビジネスロジック（この例では空き枠を返す）
-    const result = {
-      job_id: data.job_id,
-      external_shop_id: data.external_shop_id,
-      synced_at: new Date().toISOString(),
-      type: 'available_slots',
-      slots: [
-        {
-          date: '2025-12-20',
-          start_time: '10:00',
-          end_time: '11:00',
-          resource_name: 'スタッフA',
-          menu_name: 'カット',
-          duration_min: 60,
-          status: 'available',
-        },
-        {
-          date: '2025-12-20',
-          start_time: '14:00',
-          end_time: '15:00',
-          resource_name: 'スタッフB',
-          menu_name: 'カラー',
-          duration_min: 90,
-          status: 'available',
-        },
-      ],
-    };
-
-    // コールバック送信
-    if (data.callback_url) {
-      await sendCallback(data.callback_url, result);
-      logger.info({ callbackUrl: data.callback_url }, 'Callback sent');
-    }
-
-    // 成功時: スクリーンショット削除
-    await screenshot.cleanup();
-    logger.info('Job completed successfully');
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error({ error: errorMessage }, 'Job failed');
-
-    // エラー時: スクリーンショット保持
-    screenshot.clear();
-
-    // エラー時もコールバックで通知
-    if (data.callback_url) {
-      await sendCallback(data.callback_url, {
-        job_id: data.job_id,
-        external_shop_id: data.external_shop_id,
-        synced_at: new Date().toISOString(),
-        type: 'error',
-        error: errorMessage,
-      });
-    }
+    await this.page!.goto('https://dev-portal.smartcall.jp/login');
+    await new LoginPage(this.page!).login(credentials.loginKey, credentials.loginPassword);
+  }
 
-    throw error;
-  } finally {
-    await browserManager.close();
+  protected async isLoggedIn(): Promise<boolean> {
+    return /\/(dashboard|dev)/.test(this.page!.url());
   }
-});
 
-// ワーカーイベント
-syncWorker.on('completed', (job) => {
-  console.log(`[Worker] Job ${job.id} completed`);
-});
+  protected async refreshForKeepAlive(): Promise<void> {
+    await this.page!.reload();
+  }
+}
 
-syncWorker.on('failed', (job, err) => {
-  console.error(`[Worker] Job ${job?.id} failed:`, err.message);
-});
+const session = new DevPortalSessionManager({ headless: true });
 
 // ============================================
 // サーバー定義
@@ -167,13 +79,33 @@ const app = express();
 app.use(express.json());
 
 // ヘルスチェック
-addHealthCheck(app);
+addHealthCheck(app, session);
 
 // sync-cycleエンドポイント
-app.post('/beautymerit/sync-cycle', createSyncCycleHandler(syncQueue));
+app.post(
+  '/beautymerit/sync-cycle',
+  createSyncCycleHandler(session, async (page, { request, syncWindow, screenshot, logger }) => {
+    logger.info({ shopId: request.external_shop_id, ...syncWindow }, 'Processing job');
+    await screenshot.captureStep(page, '01-logged-in');
+
+    // ビジネスロジック（この例ではスタッフごとの空き区間から空き枠を返す）
+    const intervals: OpenInterval[] = [
+      { date: syncWindow.date_from, start_at: '10:00', end_at: '12:00', resource_name: 'スタッフA' },
+      { date: syncWindow.date_from, start_at: '14:00', end_at: '16:00', resource_name: 'スタッフB' },
+    ];
+
+    return {
+      available_slots: buildSlotsFromIntervals(intervals, {
+        durationMin: 60,
+        preference: 'specific',
+      }),
+    };
+  })
+);
 
 // サーバー起動
 const PORT = process.env.PORT || 3000;
+await session.start();
 app.listen(PORT, () => {
   console.log('');
   console.log('============================================');
@@ -181,7 +113,7 @@ app.listen(PORT, () => {
   console.log('============================================');
   console.log('');
   console.log(`[Server] Running on port ${PORT}`);
-  console.log('[Worker] Started, waiting for jobs...');
+  console.log(`[Session] State: ${session.getState()}`);
   console.log('');
   console.log('Endpoints:');
   console.log(`  - GET  http://localhost:${PORT}/health`);
@@ -191,9 +123,8 @@ app.listen(PORT, () => {
   console.log(`  curl -X POST http://localhost:${PORT}/beautymerit/sync-cycle \\`);
   console.log('    -H "Content-Type: application/json" \\');
   console.log("    -d '{");
-  console.log('      "job_id": "JOB-001",');
+  console.log('      "job_id": "550e8400-e29b-41d4-a716-446655440000",');
   console.log('      "external_shop_id": "SHOP-001",');
-  console.log('      "action": "fetch_slots",');
   console.log('      "callback_url": "https://httpbin.org/post"');
   console.log("    }'");
   console.log('');
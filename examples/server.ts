@@ -2,52 +2,91 @@
  * SmartCall RPA SDK - サンプルサーバー
  *
  * sync-cycleエンドポイントでリクエストを受け取り、
- * ジョブをキューに登録するサンプルコードです。
+ * 常駐ブラウザセッション上でジョブを実行するサンプルコードです。
  *
  * 実行方法:
- *   SMARTCALL_MODE=stub npx ts-node examples/server.ts
+ *   npx ts-node examples/server.ts
  */
 
 import express from 'express';
 import {
-  createQueue,
-  createSyncCycleHandler,
   addHealthCheck,
-  type RpaJobData,
+  BaseBrowserSessionManager,
+  createSyncCycleHandler,
+  getOptionalCredentials,
+  processReservations,
 } from '../src/index.js';
 
-// キューを作成（スタブモードではメモリ内キュー）
-const syncQueue = createQueue<RpaJobData>('sync');
+/**
+ * セッションマネージャー（サービス固有のログイン処理を実装）
+ */
+class MySessionManager extends BaseBrowserSessionManager {
+  protected async performLogin(): Promise<void> {
+    const credentials = getOptionalCredentials();
+    await this.page!.goto('https://example.com/login');
+    if (credentials) {
+      await this.page!.fill('#loginId', credentials.loginKey);
+      await this.page!.fill('#password', credentials.loginPassword);
+      await this.page!.click('button[type="submit"]');
+    }
+  }
+
+  protected async isLoggedIn(): Promise<boolean> {
+    return this.page!.url().includes('/dashboard');
+  }
+
+  protected async refreshForKeepAlive(): Promise<void> {
+    await this.page!.reload();
+  }
+}
+
+const session = new MySessionManager({ headless: true });
 
 // Expressアプリを作成
 const app = express();
 app.use(express.json());
 
-// ヘルスチェックエンドポイント
-addHealthCheck(app);
+// ヘルスチェックエンドポイント（error状態・ログイン停止中は503）
+addHealthCheck(app, session);
+
+// ログイン停止（連続ログイン失敗）を通知
+session.on('circuitOpen', (circuit) => {
+  console.error('[Server] Login circuit opened:', circuit);
+});
 
 // sync-cycleエンドポイント
-// リクエストを受け取り、ジョブをキューに登録してレスポンスを返す
+// リクエストを受け付けて即座にレスポンスを返し、処理完了後にコールバックを送信
 app.post(
   '/beautymerit/sync-cycle',
-  createSyncCycleHandler(syncQueue, {
-    // オプション: APIキーのバリデーション
-    // validateApiKey: true,
-    // expectedApiKey: process.env.API_KEY,
-
-    // オプション: カスタムバリデーション
-    customValidation: (req) => {
-      // 予約操作時はreservationsが必要
-      if (req.action !== 'fetch_slots' && !req.reservations?.length) {
-        return 'reservations is required for reservation operations';
-      }
-      return null;
-    },
+  createSyncCycleHandler(session, async (page, { request, signal, screenshot, logger }) => {
+    logger.info({ count: request.reservations?.length ?? 0 }, 'Processing reservations');
+
+    // 実際のビジネスロジックをここに実装
+    const reservation_results = await processReservations(
+      page,
+      request.reservations ?? [],
+      {
+        create: async (page) => {
+          await page.goto('https://example.com/reservations/new');
+          return 'EXTERNAL-ID'; // 予約システム側の予約ID
+        },
+        cancel: async (page, reservation) => {
+          await page.goto(`https://example.com/reservations/${reservation.external_reservation_id}`);
+        },
+      },
+      { signal, screenshot, logger }
+    );
+
+    return {
+      reservation_results,
+      available_slots: [],
+    };
   })
 );
 
 // サーバー起動
 const PORT = process.env.PORT || 3000;
+await session.start();
 app.listen(PORT, () => {
   console.log(`[Server] Running on port ${PORT}`);
   console.log(`[Server] Endpoints:`);
@@ -1,8 +1,7 @@
 /**
  * SmartCall RPA API エントリポイント
  *
- * サーバーとワーカーを同時に起動します。
+ * ブラウザセッションを起動し、サーバーを開始します。
  */
 
 import './server.js';
-import './worker.js';
@@ -1,45 +1,37 @@
 /**
  * SmartCall RPA API サーバー
  *
- * /sync-cycle エンドポイントでリクエストを受け取り、
- * ジョブをキューに登録します。
+ * /sync-cycle エンドポイントでリクエストを受け取り、即座にレスポンスを返します。
+ * 処理は常駐ブラウザセッション上で実行され、完了後にコールバックが送信されます。
  */
 
 import express from 'express';
-import {
-  createQueue,
-  createSyncCycleHandler,
-  addHealthCheck,
-  type RpaJobData,
-} from '@smartcall/rpa-sdk';
-
-// キューを作成
-export const syncQueue = createQueue<RpaJobData>('sync');
+import { addHealthCheck, createSyncCycleHandler } from '@smartcall/rpa-sdk';
+import { session } from './session.js';
+import { syncCycle } from './sync.js';
 
 // Expressアプリを作成
 const app = express();
 app.use(express.json());
 
 // ヘルスチェックエンドポイント（必須）
-addHealthCheck(app);
+addHealthCheck(app, session);
 
-// sync-cycleエンドポイント
-app.post(
-  '/sync-cycle',
-  createSyncCycleHandler(syncQueue, {
-    // オプション: カスタムバリデーション
-    customValidation: (req) => {
-      // 必要に応じてバリデーションを追加
-      return null;
-    },
-  })
-);
+// sync-cycleエンドポイント（不正なリクエストは400、受付後はバックグラウンドで処理）
+app.post('/sync-cycle', createSyncCycleHandler(session, syncCycle));
 
 // サーバー起動
 const PORT = process.env.PORT || 3000;
+await session.start();
 app.listen(PORT, () => {
   console.log(`[Server] Running on port ${PORT}`);
   console.log(`[Server] Endpoints:`);
   console.log(`  - GET  /health`);
   console.log(`  - POST /sync-cycle`);
 });
+
+// 終了時にブラウザを閉じる
+process.on('SIGTERM', async () => {
+  await session.close();
+  process.exit(0);
+});
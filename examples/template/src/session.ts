@@ -0,0 +1,32 @@
+/**
+ * SmartCall RPA ブラウザセッション
+ *
+ * 常駐ブラウザでログイン状態を維持します。
+ * ログイン処理・ログイン確認・キープアライブを対象サイトに合わせて実装してください。
+ */
+
+import { BaseBrowserSessionManager, getCredentials } from '@smartcall/rpa-sdk';
+import { LoginPage } from './pages/LoginPage.js';
+
+export class MySessionManager extends BaseBrowserSessionManager {
+  protected async performLogin(): Promise<void> {
+    // 認証情報を取得（環境変数から）
+    const credentials = getCredentials();
+
+    await this.page!.goto('https://your-reservation-system.com/login');
+    await new LoginPage(this.page!).login(credentials.loginKey, credentials.loginPassword);
+  }
+
+  protected async isLoggedIn(): Promise<boolean> {
+    return new LoginPage(this.page!).isLoggedIn();
+  }
+
+  protected async refreshForKeepAlive(): Promise<void> {
+    await this.page!.reload();
+  }
+}
+
+export const session = new MySessionManager({
+  headless: true,
+  homeUrl: 'https://your-reservation-system.com/dashboard',
+});
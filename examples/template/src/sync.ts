@@ -0,0 +1,52 @@
+/**
+ * SmartCall RPA sync-cycle 処理
+ *
+ * ログイン済みのページで予約操作と空き枠取得を行い、コールバックに含めるデータを返します。
+ * コールバックの送信はSDK（createSyncCycleHandler）が行います。
+ */
+
+import { processReservations, type SyncCycleJobHandler } from '@smartcall/rpa-sdk';
+
+export const syncCycle: SyncCycleJobHandler = async (
+  page,
+  { request, syncWindow, signal, screenshot, logger }
+) => {
+  logger.info({ shopId: request.external_shop_id, ...syncWindow }, 'Starting job');
+
+  // 1. 予約操作（cancel → update → create の順に実行され、1件の失敗で他は止まらない）
+  // TODO: 予約システムの操作を実装
+  const reservation_results = await processReservations(
+    page,
+    request.reservations ?? [],
+    {
+      create: async (page, reservation) => {
+        await page.goto('https://your-reservation-system.com/reservations/new');
+        // reservation.slot / reservation.customer を入力して登録
+        return 'EXTERNAL-RESERVATION-ID'; // 予約システム側の予約ID
+      },
+      cancel: async (page, reservation) => {
+        await page.goto(
+          `https://your-reservation-system.com/reservations/${reservation.external_reservation_id}`
+        );
+        // キャンセル操作
+      },
+    },
+    { signal, screenshot, logger }
+  );
+
+  // 2. 空き枠取得: syncWindow.date_from 〜 syncWindow.date_to の空き枠を取得
+  // TODO: 予約システムの空き枠を取得（buildSlotsFromIntervals / buildSlotsFromCells が使用可能）
+
+  return {
+    reservation_results,
+    available_slots: [
+      {
+        date: syncWindow.date_from,
+        time: '10:00',
+        duration_min: 60,
+        stock: 1,
+        resource_name: 'スタッフA',
+      },
+    ],
+  };
+};
@@ -50,6 +50,9 @@ export { getConfig, logConfig };
 // Re-export types
 export type {
   SmartCallConfig,
+  SyncCycleRequest,
+  ReservationSync,
+  ReservationOperation,
   ReservationRequest,
   CustomerInfo,
   SlotInfo,
@@ -0,0 +1,192 @@
+/**
+ * SmartCall RPA SDK - Business Calendar
+ *
+ * 店舗の営業時間・定休日・祝日・臨時休業を管理する
+ * 休業日のカレンダーを開かない、営業時間外の空き枠を返さない、夜間のキープアライブを間引く、などに使用する
+ */
+
+import type { ReservationSync } from '../types.js';
+import { DEFAULT_TIME_ZONE, dayOfWeek, eachDay, toZonedDateTime } from './dates.js';
+import { isJapaneseHoliday } from './holidays.js';
+import { isValidDate } from './validation.js';
+
+/**
+ * 営業時間帯
+ */
+export interface BusinessHours {
+  /** 開店時刻（HH:MM） */
+  open: string;
+  /** 閉店時刻（HH:MM、24:00可） */
+  close: string;
+}
+
+/**
+ * 曜日
+ */
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+/**
+ * 曜日ごとの営業時間（未指定・空配列の曜日は定休日）
+ */
+export type WeeklyHours = Partial<Record<Weekday, BusinessHours[]>>;
+
+export interface BusinessCalendarOptions {
+  /** 曜日ごとの営業時間 */
+  weeklyHours: WeeklyHours;
+  /**
+   * 祝日の営業時間
+   * - 省略時: 曜日ごとの営業時間に従う
+   * - 空配列: 祝日は休業
+   */
+  holidayHours?: BusinessHours[];
+  /** 臨時休業日（YYYY-MM-DD、または期間） */
+  closures?: Array<string | ReservationSync>;
+  /** 特定日の営業時間（臨時営業・時短営業など。定休日・祝日・臨時休業より優先） */
+  specialHours?: Record<string, BusinessHours[]>;
+  /** タイムゾーン（デフォルト: Asia/Tokyo） */
+  timeZone?: string;
+}
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * 店舗の営業カレンダー
+ *
+ * @example
+ * ```typescript
+ * const calendar = new BusinessCalendar({
+ *   weeklyHours: {
+ *     mon: [{ open: '10:00', close: '19:00' }],
+ *     wed: [{ open: '10:00', close: '19:00' }],
+ *     sat: [{ open: '09:00', close: '18:00' }],
+ *   },
+ *   holidayHours: [], // 祝日は休業
+ *   closures: [{ date_from: '2025-12-29', date_to: '2026-01-03' }],
+ * });
+ *
+ * calendar.isOpenOn('2025-12-22'); // => true
+ * calendar.openDays(syncWindow);   // 営業日のみ
+ * ```
+ */
+export class BusinessCalendar {
+  private options: Required<Omit<BusinessCalendarOptions, 'holidayHours'>> &
+    Pick<BusinessCalendarOptions, 'holidayHours'>;
+  private closedDates = new Set<string>();
+
+  constructor(options: BusinessCalendarOptions) {
+    this.options = {
+      closures: [],
+      specialHours: {},
+      timeZone: DEFAULT_TIME_ZONE,
+      ...options,
+    };
+    for (const closure of this.options.closures) {
+      this.addClosure(closure);
+    }
+
+    // 営業時間の形式を起動時に検証
+    const allHours = [
+      ...Object.values(this.options.weeklyHours),
+      ...Object.values(this.options.specialHours),
+      this.options.holidayHours ?? [],
+    ].flat();
+    for (const hours of allHours) {
+      if (toMinutes(hours.close) <= toMinutes(hours.open)) {
+        throw new Error(
+          `[SmartCall SDK] Business hours close must be after open: ${hours.open}-${hours.close}`
+        );
+      }
+    }
+  }
+
+  /**
+   * 臨時休業日を追加
+   * @param closure 日付（YYYY-MM-DD）、または期間
+   */
+  addClosure(closure: string | ReservationSync): void {
+    const range = typeof closure === 'string' ? { date_from: closure, date_to: closure } : closure;
+    if (!isValidDate(range.date_from) || !isValidDate(range.date_to)) {
+      throw new Error(`[SmartCall SDK] Invalid closure date: ${JSON.stringify(closure)}`);
+    }
+    for (const date of eachDay(range.date_from, range.date_to)) {
+      this.closedDates.add(date);
+    }
+  }
+
+  /**
+   * 指定日の営業時間（休業日は空配列）
+   *
+   * 優先順位: 特定日の営業時間 → 臨時休業 → 祝日の営業時間 → 曜日ごとの営業時間
+   */
+  getHours(date: string): BusinessHours[] {
+    const special = this.options.specialHours[date];
+    if (special) return special;
+    if (this.closedDates.has(date)) return [];
+    if (this.options.holidayHours && isJapaneseHoliday(date)) {
+      return this.options.holidayHours;
+    }
+    return this.options.weeklyHours[WEEKDAYS[dayOfWeek(date)]] ?? [];
+  }
+
+  /**
+   * 営業日かどうか
+   */
+  isOpenOn(date: string): boolean {
+    return this.getHours(date).length > 0;
+  }
+
+  /**
+   * 指定時刻が営業時間内かどうか
+   *
+   * @param at 時刻（デフォルト: 現在時刻）
+   * @param marginMin 営業時間の前後に含める余裕（分、デフォルト: 0）
+   */
+  isOpenAt(at: Date = new Date(), marginMin: number = 0): boolean {
+    const { date, minutes } = toZonedDateTime(at, this.options.timeZone);
+    return this.getHours(date).some(
+      (hours) =>
+        toMinutes(hours.open) - marginMin <= minutes && minutes < toMinutes(hours.close) + marginMin
+    );
+  }
+
+  /**
+   * 時間帯（開始時刻から所要時間分）が営業時間内に収まるかどうか
+   *
+   * @param date 日付（YYYY-MM-DD）
+   * @param startMinutes 開始時刻（0:00からの分）
+   * @param durationMin 所要時間（分）
+   */
+  fitsWithinHours(date: string, startMinutes: number, durationMin: number): boolean {
+    return this.getHours(date).some(
+      (hours) =>
+        toMinutes(hours.open) <= startMinutes &&
+        startMinutes + durationMin <= toMinutes(hours.close)
+    );
+  }
+
+  /**
+   * 期間内の営業日を列挙
+   */
+  openDays(range: ReservationSync): string[] {
+    return eachDay(range.date_from, range.date_to).filter((date) => this.isOpenOn(date));
+  }
+
+  /**
+   * 期間内に営業日があるかどうか（chunkRange() の結果から休業のみの週を除く場合など）
+   */
+  hasOpenDay(range: ReservationSync): boolean {
+    return eachDay(range.date_from, range.date_to).some((date) => this.isOpenOn(date));
+  }
+}
+
+/**
+ * HH:MM を0:00からの分に変換（24:00可）（内部用）
+ */
+function toMinutes(value: string): number {
+  const match = /^(\d{1,2}):([0-5]\d)$/.exec(value);
+  const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+  if (!(minutes <= 24 * 60)) {
+    throw new Error(`[SmartCall SDK] Invalid business hours time: ${value}`);
+  }
+  return minutes;
+}
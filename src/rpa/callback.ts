@@ -4,29 +4,74 @@
  * 処理結果をSmartCallに送信するためのヘルパー
  */
 
+import type {
+  CustomerInfo,
+  MenuInfo,
+  ReservationOperation,
+  ReservationRequest,
+  SlotInfo,
+  StaffInfo,
+} from '../types.js';
+import { classifyError, RpaSystemError } from './errors.js';
+import { validateExternalReservations } from './validation.js';
+import { getSigningSecret } from './credentials.js';
+import { signPayload } from './signature.js';
+import { exponentialBackoff, parseRetryAfter, type RetryPolicy } from './retry.js';
+import { createRpaLogger, type RpaLogger } from './logger.js';
+import type { CatalogResult } from './catalog.js';
+
 export interface CallbackOptions {
-  /** タイムアウト（ms） */
+  /** 1回の送信のタイムアウト（ms、デフォルト: 10秒） */
   timeout?: number;
-  /** リトライ回数 */
+  /** リトライ回数（デフォルト: 3。retryPolicy指定時は無視） */
   retries?: number;
-  /** リトライ間隔（ms） */
+  /** 初回のリトライ間隔（ms、デフォルト: 1秒。以降 2倍ずつ増加。retryPolicy指定時は無視） */
   retryDelay?: number;
+  /** リトライポリシー（デフォルト: exponentialBackoff({ retries, baseDelayMs: retryDelay })） */
+  retryPolicy?: RetryPolicy;
+  /**
+   * 署名用の共有シークレット（デフォルト: getSigningSecret()）
+   * 設定されている場合、X-SmartCall-Timestamp / X-SmartCall-Signature ヘッダーを付与する
+   */
+  signingSecret?: string;
+  /** ロガー（デフォルト: createRpaLogger()。ボディの個人情報はマスクされる） */
+  logger?: RpaLogger;
 }
 
+/**
+ * 予約操作の結果ステータス
+ * conflict はSmartCall側で `conflict` ステータスにマッピングされる（API仕様 §3.2）
+ */
+export type ReservationResultStatus = 'success' | 'failed' | 'conflict';
+
 /**
  * 予約操作結果の詳細
  */
 export interface ReservationResultDetail {
-  /** 結果: success / failed */
-  status: 'success' | 'failed';
+  /** 結果: success / failed / conflict */
+  status: ReservationResultStatus;
   /** 予約システム側の予約ID（成功時） */
   external_reservation_id?: string;
   /** エラーコード（失敗時） */
   error_code?: string | null;
   /** エラーメッセージ（失敗時） */
   error_message?: string | null;
+  /** 変更前の予約システム側の予約ID（キャンセル＋新規作成で update した場合） */
+  previous_external_reservation_id?: string;
+  /** 補償処理（ロールバック）の結果（update の途中で失敗した場合） */
+  rollback_status?: RollbackStatus;
+  /** 失敗時に撮影したスクリーンショットのパス（RPAサーバー上。撮影が有効な場合） */
+  evidence_screenshot?: string;
 }
 
+/**
+ * 補償処理（ロールバック）の結果
+ */
+export type RollbackStatus =
+  | 'succeeded' // 元の状態に戻した
+  | 'failed' // 元の状態に戻せなかった
+  | 'skipped'; // 補償処理が未定義のため実行しなかった
+
 /**
  * 予約操作結果の型（API仕様準拠）
  */
@@ -34,7 +79,7 @@ export interface ReservationResult {
   /** SmartCall側の予約ID */
   reservation_id: string;
   /** 操作種別: create / update / cancel */
-  operation: 'create' | 'update' | 'cancel';
+  operation: ReservationOperation;
   /** 結果オブジェクト */
   result: ReservationResultDetail;
 }
@@ -55,6 +100,69 @@ export interface AvailableSlot {
   resource_name?: string;
 }
 
+/**
+ * 予約システム上の予約の状態
+ */
+export type ExternalReservationStatus =
+  | 'confirmed' // 確定
+  | 'tentative' // 仮予約
+  | 'cancelled'; // キャンセル済み
+
+/**
+ * 予約の登録元
+ */
+export type ExternalReservationSource =
+  | 'smartcall' // SmartCall経由で登録された予約
+  | 'direct' // 予約システムで直接登録された予約（電話・店頭・他サイトなど）
+  | 'unknown'; // 判別できない
+
+/**
+ * 予約システム上の既存予約（API仕様準拠）
+ * SmartCall側で二重予約を防ぐために、予約システムで直接登録された予約も含めて返す
+ */
+export interface ExternalReservation {
+  /** 予約システム側の予約ID */
+  external_reservation_id: string;
+  /** SmartCall側の予約ID（SmartCall経由の予約で分かる場合） */
+  reservation_id?: string;
+  /** 予約枠 */
+  slot: SlotInfo;
+  /** メニュー */
+  menu?: MenuInfo;
+  /** スタッフ */
+  staff?: StaffInfo;
+  /** 顧客情報（予約システムで取得できる範囲） */
+  customer?: Partial<CustomerInfo>;
+  /** 状態 */
+  status: ExternalReservationStatus;
+  /** 登録元 */
+  source: ExternalReservationSource;
+}
+
+/**
+ * 空き枠を識別するキー
+ */
+export type AvailableSlotKey = Pick<AvailableSlot, 'date' | 'time' | 'resource_name'>;
+
+/**
+ * 同期モード
+ * - full: reservations / available_slots に全件を含む
+ * - delta: 前回同期からの差分のみを *_delta に含む（reservations / available_slots は空）
+ */
+export type SyncMode = 'full' | 'delta';
+
+/**
+ * 前回同期からの差分
+ */
+export interface CollectionDelta<T, K> {
+  /** 追加された要素 */
+  added: T[];
+  /** 変更された要素（変更後の値） */
+  changed: T[];
+  /** 削除された要素のキー */
+  removed: K[];
+}
+
 /**
  * エラー情報の型（API仕様準拠）
  */
@@ -65,6 +173,11 @@ export interface CallbackError {
   message: string;
 }
 
+/**
+ * ジョブ全体のステータス（API仕様 §2.2 準拠）
+ */
+export type JobStatus = 'success' | 'partial_success' | 'failed';
+
 /**
  * コールバック結果の型（API仕様準拠）
  */
@@ -73,59 +186,131 @@ export interface CallbackResult {
   job_id: string;
   /** 店舗ID */
   external_shop_id: string;
+  /** ジョブ全体のステータス */
+  status: JobStatus;
   /** 同期完了日時（ISO 8601形式） */
   synced_at: string;
   /** 予約操作結果リスト */
   reservation_results: ReservationResult[];
-  /** 予約一覧（現在は空配列を返す） */
-  reservations: unknown[];
+  /** 予約システム上の既存予約一覧（同期期間内） */
+  reservations: ExternalReservation[];
   /** 空き枠情報 */
   available_slots: AvailableSlot[];
+  /** 同期モード（SnapshotStore使用時のみ） */
+  sync_mode?: SyncMode;
+  /** 既存予約の差分（sync_mode: delta の場合） */
+  reservations_delta?: CollectionDelta<ExternalReservation, string>;
+  /** 空き枠の差分（sync_mode: delta の場合） */
+  available_slots_delta?: CollectionDelta<AvailableSlot, AvailableSlotKey>;
   /** エラー情報 */
   error?: CallbackError;
   /** その他のカスタムフィールド */
   [key: string]: unknown;
 }
 
+/**
+ * コールバック送信の試行結果
+ */
+export interface CallbackAttempt {
+  /** 試行番号（1始まり） */
+  attempt: number;
+  /** HTTPステータス（ネットワークエラー・タイムアウト時はnull） */
+  status: number | null;
+  /** 所要時間（ms） */
+  durationMs: number;
+  /** エラーメッセージ（失敗時） */
+  error?: string;
+}
+
+/**
+ * コールバック送信レポート
+ */
+export interface CallbackDeliveryReport {
+  /** 送信に成功したか */
+  success: boolean;
+  /** コールバックID（ログ突合用） */
+  callbackId: string;
+  /** 各試行の結果 */
+  attempts: CallbackAttempt[];
+  /** 全体の所要時間（ms） */
+  totalDurationMs: number;
+}
+
+/**
+ * コールバック送信失敗エラー（全リトライ失敗、またはリトライ不可能なステータス）
+ */
+export class CallbackDeliveryError extends Error {
+  /** 送信レポート */
+  readonly report: CallbackDeliveryReport;
+
+  constructor(message: string, report: CallbackDeliveryReport, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'CallbackDeliveryError';
+    this.report = report;
+  }
+}
+
 /**
  * コールバックを送信
  *
+ * デフォルトはAPI仕様 §6 準拠（タイムアウト10秒、1秒・2秒・4秒の指数バックオフで3回リトライ）
+ * 4xx（408/425/429を除く）はリトライせず、Retry-Afterヘッダーがあればそれに従う
+ *
  * @param callbackUrl コールバックURL
- * @param result 処理結果
+ * @param result 処理結果（カタログコールバックの場合は CatalogResult）
  * @param options オプション
+ * @returns 送信レポート
+ * @throws CallbackDeliveryError 送信に失敗した場合（reportに各試行の結果を含む）
  */
 export async function sendCallback(
   callbackUrl: string,
-  result: CallbackResult,
+  result: CallbackResult | CatalogResult,
   options: CallbackOptions = {}
-): Promise<void> {
-  const { timeout = 30000, retries = 3, retryDelay = 1000 } = options;
+): Promise<CallbackDeliveryReport> {
+  const { timeout = 10000 } = options;
+  const retryPolicy =
+    options.retryPolicy ??
+    exponentialBackoff({ retries: options.retries, baseDelayMs: options.retryDelay });
+  const signingSecret = options.signingSecret ?? getSigningSecret();
+  const body = JSON.stringify(result);
   const callbackId = `cb-${Date.now()}`;
+  const logger = (options.logger ?? createRpaLogger()).child({ callbackId });
   const startTime = Date.now();
+  const attempts: CallbackAttempt[] = [];
 
-  // コールバックリクエストログ
-  console.log(`[SmartCall SDK] [${callbackId}] === CALLBACK REQUEST ===`);
-  console.log(`[SmartCall SDK] [${callbackId}] URL: ${callbackUrl}`);
-  console.log(`[SmartCall SDK] [${callbackId}] JobID: ${result.job_id}`);
-  console.log(`[SmartCall SDK] [${callbackId}] Body: ${JSON.stringify(result)}`);
+  // コールバックリクエストログ（個人情報はロガーでマスクされる）
+  logger.info(
+    { url: callbackUrl, jobId: result.job_id, body: result },
+    'Callback request'
+  );
 
-  let lastError: Error | null = null;
+  const buildReport = (success: boolean): CallbackDeliveryReport => ({
+    success,
+    callbackId,
+    attempts,
+    totalDurationMs: Date.now() - startTime,
+  });
 
-  for (let attempt = 0; attempt <= retries; attempt++) {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+  for (let attempt = 1; ; attempt++) {
+    const attemptStart = Date.now();
+    let status: number | null = null;
+    let retryAfterMs: number | null = null;
+    let lastError: Error;
 
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    try {
       const response = await fetch(callbackUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          // 署名はリトライごとに現在時刻で付け直す（リプレイ許容範囲外にならないように）
+          ...(signingSecret ? signPayload(body, signingSecret) : {}),
         },
-        body: JSON.stringify(result),
+        body,
         signal: controller.signal,
       });
-
-      clearTimeout(timeoutId);
+      status = response.status;
 
       // レスポンスボディを取得
       let responseBody: string;
@@ -135,54 +320,210 @@ export async function sendCallback(
         responseBody = '[Unable to read response body]';
       }
 
-      const duration = Date.now() - startTime;
+      const duration = Date.now() - attemptStart;
 
-      if (!response.ok) {
-        console.log(`[SmartCall SDK] [${callbackId}] === CALLBACK RESPONSE (ERROR) ===`);
-        console.log(`[SmartCall SDK] [${callbackId}] Status: ${response.status} ${response.statusText}`);
-        console.log(`[SmartCall SDK] [${callbackId}] Body: ${responseBody}`);
-        console.log(`[SmartCall SDK] [${callbackId}] Duration: ${duration}ms`);
-        throw new Error(`HTTP error: ${response.status} ${response.statusText}`);
+      if (response.ok) {
+        // 成功ログ
+        logger.info(
+          { status: response.status, body: responseBody, durationMs: duration },
+          'Callback response (success)'
+        );
+        attempts.push({ attempt, status, durationMs: duration });
+        return buildReport(true);
       }
 
-      // 成功ログ
-      console.log(`[SmartCall SDK] [${callbackId}] === CALLBACK RESPONSE (SUCCESS) ===`);
-      console.log(`[SmartCall SDK] [${callbackId}] Status: ${response.status}`);
-      console.log(`[SmartCall SDK] [${callbackId}] Body: ${responseBody}`);
-      console.log(`[SmartCall SDK] [${callbackId}] Duration: ${duration}ms`);
-      return;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      console.warn(
-        `[SmartCall SDK] [${callbackId}] Callback attempt ${attempt + 1}/${retries + 1} failed:`,
-        lastError.message
+      logger.warn(
+        {
+          status: response.status,
+          statusText: response.statusText,
+          body: responseBody,
+          durationMs: duration,
+        },
+        'Callback response (error)'
       );
+      retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      lastError = new Error(`HTTP error: ${response.status} ${response.statusText}`);
+    } catch (error) {
+      lastError = controller.signal.aborted
+        ? new Error(`Callback timed out after ${timeout}ms`)
+        : error instanceof Error
+          ? error
+          : new Error(String(error));
+    } finally {
+      clearTimeout(timeoutId);
+    }
 
-      if (attempt < retries) {
-        await new Promise((resolve) => setTimeout(resolve, retryDelay * (attempt + 1)));
-      }
+    attempts.push({
+      attempt,
+      status,
+      durationMs: Date.now() - attemptStart,
+      error: lastError.message,
+    });
+    logger.warn({ attempt, error: lastError.message }, 'Callback attempt failed');
+
+    const delay = retryPolicy.nextDelay({ attempt, status, error: lastError, retryAfterMs });
+    if (delay === null) {
+      const report = buildReport(false);
+      logger.error(
+        { attempts: attempt, durationMs: report.totalDurationMs, error: lastError.message },
+        'Callback failed'
+      );
+      throw new CallbackDeliveryError(lastError.message, report, { cause: lastError });
     }
+
+    await new Promise((resolve) => setTimeout(resolve, delay));
   }
+}
 
-  const duration = Date.now() - startTime;
-  console.error(`[SmartCall SDK] [${callbackId}] Callback failed after all retries (${duration}ms):`, lastError?.message);
-  throw lastError;
+/**
+ * 予約操作が成功した結果を構築
+ *
+ * @param reservation 対象の予約リクエスト
+ * @param externalReservationId 予約システム側の予約ID
+ *
+ * @example
+ * ```typescript
+ * results.push(reservationSuccess(reservation, 'BM-2025121800001'));
+ * ```
+ */
+export function reservationSuccess(
+  reservation: Pick<ReservationRequest, 'reservation_id' | 'operation'>,
+  externalReservationId?: string
+): ReservationResult {
+  return {
+    reservation_id: reservation.reservation_id,
+    operation: reservation.operation,
+    result: {
+      status: 'success',
+      external_reservation_id: externalReservationId,
+      error_code: null,
+      error_message: null,
+    },
+  };
+}
+
+/**
+ * 予約操作が失敗した結果を構築
+ *
+ * @param reservation 対象の予約リクエスト
+ * @param errorCode エラーコード（例: SLOT_NOT_AVAILABLE）
+ * @param errorMessage エラーメッセージ
+ */
+export function reservationFailed(
+  reservation: Pick<ReservationRequest, 'reservation_id' | 'operation'>,
+  errorCode: string,
+  errorMessage: string
+): ReservationResult {
+  return {
+    reservation_id: reservation.reservation_id,
+    operation: reservation.operation,
+    result: {
+      status: 'failed',
+      external_reservation_id: '',
+      error_code: errorCode,
+      error_message: errorMessage,
+    },
+  };
+}
+
+/**
+ * 例外から予約操作が失敗した結果を構築
+ * エラーはclassifyError()でエラーコードに分類される
+ *
+ * @param reservation 対象の予約リクエスト
+ * @param error 発生したエラー
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const id = await reservePage.create(reservation);
+ *   results.push(reservationSuccess(reservation, id));
+ * } catch (error) {
+ *   results.push(reservationError(reservation, error));
+ * }
+ * ```
+ */
+export function reservationError(
+  reservation: Pick<ReservationRequest, 'reservation_id' | 'operation'>,
+  error: unknown
+): ReservationResult {
+  const { code, message } = classifyError(error).toCallbackError();
+  return reservationFailed(reservation, code, message);
+}
+
+/**
+ * 予約が競合した結果を構築（二重予約など）
+ *
+ * @param reservation 対象の予約リクエスト
+ * @param existingExternalId 競合している既存予約の予約システム側ID
+ * @param errorMessage エラーメッセージ
+ */
+export function reservationConflict(
+  reservation: Pick<ReservationRequest, 'reservation_id' | 'operation'>,
+  existingExternalId: string,
+  errorMessage: string = 'Conflicting reservation already exists'
+): ReservationResult {
+  return {
+    reservation_id: reservation.reservation_id,
+    operation: reservation.operation,
+    result: {
+      status: 'conflict',
+      external_reservation_id: existingExternalId,
+      error_code: 'DUPLICATE_RESERVATION',
+      error_message: errorMessage,
+    },
+  };
+}
+
+/**
+ * 予約操作結果とエラー情報からジョブ全体のステータスを判定
+ *
+ * - 予約操作がすべて成功し、エラーがなければ success
+ * - 成功した予約操作が1件もなく、失敗またはエラーがあれば failed
+ * - 成功と失敗（またはエラー）が混在していれば partial_success
+ *
+ * @param reservationResults 予約操作結果リスト
+ * @param error ジョブレベルのエラー情報
+ */
+export function resolveJobStatus(
+  reservationResults: ReservationResult[] = [],
+  error?: CallbackError
+): JobStatus {
+  const succeeded = reservationResults.filter((r) => r.result.status === 'success').length;
+  const unsucceeded = reservationResults.length - succeeded;
+
+  if (unsucceeded === 0 && !error) return 'success';
+  if (succeeded === 0) return 'failed';
+  return 'partial_success';
 }
 
 /**
  * コールバック結果を構築するヘルパー
  *
+ * data.reservations は validateExternalReservations() で検証され、
+ * 不正な場合は RpaSystemError（リトライ不可）をスローする
+ *
  * @param jobId ジョブID
  * @param externalShopId 店舗ID
- * @param status ジョブ全体のステータス（後方互換性のため残すが、CallbackResultには含まれない）
+ * @param status ジョブ全体のステータス（省略時はreservation_resultsとerrorから判定）
  * @param data 追加データ
  */
 export function buildCallbackResult(
   jobId: string,
   externalShopId: string,
-  _status: 'success' | 'partial_success' | 'failed',
-  data: Partial<Omit<CallbackResult, 'job_id' | 'external_shop_id' | 'synced_at'>> = {}
+  status?: JobStatus,
+  data: Partial<Omit<CallbackResult, 'job_id' | 'external_shop_id' | 'synced_at' | 'status'>> = {}
 ): CallbackResult {
+  if (data.reservations !== undefined) {
+    const validation = validateExternalReservations(data.reservations);
+    if (!validation.valid) {
+      const details = validation.errors.map((e) => `${e.field}: ${e.message}`).join('; ');
+      throw new RpaSystemError(`Invalid reservations in callback result: ${details}`, {
+        retryable: false,
+      });
+    }
+  }
+
   return {
     job_id: jobId,
     external_shop_id: externalShopId,
@@ -191,5 +532,11 @@ export function buildCallbackResult(
     reservations: [],
     available_slots: [],
     ...data,
+    status:
+      status ??
+      resolveJobStatus(
+        data.reservation_results as ReservationResult[] | undefined,
+        data.error as CallbackError | undefined
+      ),
   };
 }
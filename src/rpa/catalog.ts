@@ -0,0 +1,232 @@
+/**
+ * SmartCall RPA SDK - Menu & Staff Catalog
+ *
+ * 予約システムのメニュー一覧・スタッフ一覧を取得し、カタログコールバックとしてSmartCallに送信する
+ * SmartCall側で MenuInfo.external_menu_id / StaffInfo.external_staff_id の対応付けを自動で更新するために使用する
+ */
+
+import type { Page } from 'playwright';
+import type { BaseBrowserSessionManager } from './session.js';
+import { SessionRegistry } from './registry.js';
+import {
+  sendCallback,
+  type CallbackDeliveryReport,
+  type CallbackError,
+  type CallbackOptions,
+  type JobStatus,
+} from './callback.js';
+import { ScreenshotManager, type ScreenshotOptions } from './screenshot.js';
+import { createRpaLogger, type RpaLogger } from './logger.js';
+import { classifyError, RpaSystemError } from './errors.js';
+import { validateCatalog } from './validation.js';
+
+/**
+ * カタログのメニュー
+ */
+export interface CatalogMenu {
+  /** 予約システム側のメニューID */
+  external_menu_id: string;
+  /** メニュー名 */
+  menu_name: string;
+  /** 所要時間（分） */
+  duration_min?: number;
+  /** 価格（税込・円） */
+  price?: number;
+  /** カテゴリ（カット、カラーなど） */
+  category?: string;
+}
+
+/**
+ * カタログのスタッフ
+ */
+export interface CatalogStaff {
+  /** 予約システム側のスタッフID */
+  external_staff_id: string;
+  /** スタッフ名 */
+  staff_name: string;
+  /** リソース名（空き枠の resource_name と対応する名前。スタッフ名と異なる場合） */
+  resource_name?: string;
+}
+
+/**
+ * カタログ（フックの戻り値）
+ */
+export interface CatalogData {
+  /** メニュー一覧 */
+  menus: CatalogMenu[];
+  /** スタッフ一覧 */
+  staff: CatalogStaff[];
+}
+
+/**
+ * カタログコールバックの型
+ */
+export interface CatalogResult extends CatalogData {
+  /** SmartCallから要求された場合のジョブID */
+  job_id?: string;
+  /** 店舗ID */
+  external_shop_id: string;
+  /** ステータス（取得に失敗した場合は failed で、menus / staff は空） */
+  status: Exclude<JobStatus, 'partial_success'>;
+  /** 取得日時（ISO 8601形式） */
+  synced_at: string;
+  /** エラー情報 */
+  error?: CallbackError;
+}
+
+/**
+ * カタログ取得フックに渡されるコンテキスト
+ */
+export interface CatalogContext {
+  /** 店舗ID */
+  externalShopId: string;
+  /** ロガー */
+  logger: RpaLogger;
+  /** スクリーンショットマネージャー */
+  screenshot: ScreenshotManager;
+  /** 中断シグナル（タイムアウト時にabortされる） */
+  signal: AbortSignal;
+}
+
+/**
+ * 予約システムからメニュー一覧・スタッフ一覧を取得するフック
+ */
+export type FetchCatalogHook = (page: Page, context: CatalogContext) => Promise<CatalogData>;
+
+export interface SyncCatalogOptions {
+  /** SmartCallから要求された場合のジョブID（コールバックに含める） */
+  jobId?: string;
+  /** ページ操作のタイムアウト（ms、デフォルト: 60秒） */
+  timeoutMs?: number;
+  /** コールバック送信オプション */
+  callback?: CallbackOptions;
+  /** スクリーンショットオプション */
+  screenshot?: ScreenshotOptions;
+  /** ロガー（省略時はcreateRpaLogger()） */
+  logger?: RpaLogger;
+}
+
+/**
+ * カタログコールバックの結果を構築
+ *
+ * data は validateCatalog() で検証され、不正な場合は RpaSystemError（リトライ不可）をスローする
+ *
+ * @param externalShopId 店舗ID
+ * @param data カタログ（取得に失敗した場合はエラー情報）
+ * @param jobId ジョブID
+ */
+export function buildCatalogResult(
+  externalShopId: string,
+  data: CatalogData | { error: CallbackError },
+  jobId?: string
+): CatalogResult {
+  const base = {
+    ...(jobId !== undefined && { job_id: jobId }),
+    external_shop_id: externalShopId,
+    synced_at: new Date().toISOString(),
+  };
+  if ('error' in data) {
+    return { ...base, status: 'failed', menus: [], staff: [], error: data.error };
+  }
+
+  const validation = validateCatalog(data);
+  if (!validation.valid) {
+    const details = validation.errors.map((e) => `${e.field}: ${e.message}`).join('; ');
+    throw new RpaSystemError(`Invalid catalog: ${details}`, { retryable: false });
+  }
+  return { ...base, status: 'success', menus: data.menus, staff: data.staff };
+}
+
+/**
+ * カタログコールバックを送信
+ * リトライ・署名・ログは sendCallback() と同じ
+ *
+ * @param callbackUrl カタログコールバックURL
+ * @param result カタログコールバックの結果
+ * @param options オプション
+ * @throws CallbackDeliveryError 送信に失敗した場合
+ */
+export async function sendCatalogCallback(
+  callbackUrl: string,
+  result: CatalogResult,
+  options: CallbackOptions = {}
+): Promise<CallbackDeliveryReport> {
+  return sendCallback(callbackUrl, result, options);
+}
+
+/**
+ * カタログを取得してコールバックを送信
+ *
+ * `session.withPage` 内でフックを実行し、結果（失敗時は status: failed）をカタログコールバックURLに送信する。
+ * SessionRegistryを渡した場合は店舗ごとのセッションで実行される。
+ *
+ * @param session ブラウザセッション、または店舗ごとのセッションレジストリ
+ * @param externalShopId 店舗ID
+ * @param fetchCatalog カタログ取得フック
+ * @param callbackUrl カタログコールバックURL
+ * @param options オプション
+ * @returns 送信したカタログコールバックの結果
+ * @throws CallbackDeliveryError 送信に失敗した場合
+ *
+ * @example
+ * ```typescript
+ * await syncCatalog(session, '73510325', async (page, { signal }) => {
+ *   const menuPage = new MenuListPage(page, { signal });
+ *   return { menus: await menuPage.fetchMenus(), staff: await menuPage.fetchStaff() };
+ * }, 'https://smartcall.example.com/api/rpa/catalog');
+ * ```
+ */
+export async function syncCatalog(
+  session: BaseBrowserSessionManager | SessionRegistry,
+  externalShopId: string,
+  fetchCatalog: FetchCatalogHook,
+  callbackUrl: string,
+  options: SyncCatalogOptions = {}
+): Promise<CatalogResult> {
+  const { jobId, timeoutMs = 60000 } = options;
+  const logger = (options.logger ?? createRpaLogger()).child({
+    shopId: externalShopId,
+    ...(jobId !== undefined && { jobId }),
+  });
+  const screenshot = new ScreenshotManager(jobId ?? `catalog-${Date.now()}`, options.screenshot);
+  let result: CatalogResult;
+
+  logger.info('Catalog sync started');
+
+  try {
+    const job = async (page: Page, signal: AbortSignal): Promise<CatalogData> => {
+      try {
+        return await fetchCatalog(page, { externalShopId, logger, screenshot, signal });
+      } catch (error) {
+        if (!signal.aborted) {
+          await screenshot.captureError(page, 'catalog');
+        }
+        throw error;
+      }
+    };
+
+    const data =
+      session instanceof SessionRegistry
+        ? await session.withPage(externalShopId, job, timeoutMs)
+        : await session.withPage(job, timeoutMs);
+
+    result = buildCatalogResult(externalShopId, data, jobId);
+    await screenshot.cleanup();
+    logger.info(
+      { menus: result.menus.length, staff: result.staff.length },
+      'Catalog sync completed'
+    );
+  } catch (error) {
+    const rpaError = classifyError(error);
+    result = buildCatalogResult(externalShopId, { error: rpaError.toCallbackError() }, jobId);
+    // エラー時はスクリーンショットを保持
+    screenshot.clear();
+    logger.error(
+      { code: rpaError.code, retryable: rpaError.retryable, error: rpaError.message },
+      'Catalog sync failed'
+    );
+  }
+
+  await sendCatalogCallback(callbackUrl, result, { logger, ...options.callback });
+  return result;
+}
@@ -104,3 +104,54 @@ export function getCustomCredential(envVarName: string): string | undefined {
 export function hasCredentials(): boolean {
   return !!(process.env.LOGIN_KEY && process.env.LOGIN_PASSWORD);
 }
+
+/**
+ * 店舗ごとの認証情報を取得
+ *
+ * 複数店舗を1コンテナで扱う場合に使用する。
+ * 店舗IDを大文字化し英数字以外を `_` に置換したサフィックス付きの環境変数を読み取る:
+ * - LOGIN_KEY_{SHOP}: ログインID
+ * - LOGIN_PASSWORD_{SHOP}: ログインパスワード
+ *
+ * @param shopId 店舗ID（external_shop_id）
+ * @returns 認証情報オブジェクト（未設定の場合はnull）
+ *
+ * @example
+ * ```typescript
+ * // LOGIN_KEY_73510325 / LOGIN_PASSWORD_73510325 を読み取る
+ * const creds = getShopCredentials('73510325') ?? getCredentials();
+ * ```
+ */
+export function getShopCredentials(shopId: string): RpaCredentials | null {
+  const suffix = shopId.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+  const loginKey = process.env[`LOGIN_KEY_${suffix}`];
+  const loginPassword = process.env[`LOGIN_PASSWORD_${suffix}`];
+
+  if (!loginKey || !loginPassword) {
+    return null;
+  }
+
+  return {
+    loginKey,
+    loginPassword,
+  };
+}
+
+/**
+ * sync-cycle受信用のAPIキーを取得（Bearer認証）
+ *
+ * 環境変数 SMARTCALL_API_KEY を読み取る
+ */
+export function getApiKey(): string | undefined {
+  return getCustomCredential('SMARTCALL_API_KEY');
+}
+
+/**
+ * リクエスト署名用の共有シークレットを取得（HMAC-SHA256）
+ *
+ * 環境変数 SMARTCALL_SIGNING_SECRET を読み取る
+ * コールバックの署名とsync-cycleの署名検証の両方に使用する
+ */
+export function getSigningSecret(): string | undefined {
+  return getCustomCredential('SMARTCALL_SIGNING_SECRET');
+}
@@ -0,0 +1,283 @@
+/**
+ * SmartCall RPA SDK - Customer Matching
+ *
+ * 顧客の氏名・電話番号を正規化し、予約システム上の既存予約と照合する
+ * external_reservation_id が分からない予約のキャンセル・確認で、対象の予約を特定するために使用する
+ *
+ * - 電話番号: 全角数字・ハイフン・括弧・+81 を吸収し、国内表記の数字列（例: 09012345678）にする
+ * - 氏名: NFKC正規化（全角英数・半角カナ）、空白の統一、敬称の除去。照合時はひらがなをカタカナとして扱う
+ */
+
+import type { CustomerInfo, SlotInfo } from '../types.js';
+import type { ExternalReservation } from './callback.js';
+
+/**
+ * 項目ごとの照合結果
+ * - match: 一致
+ * - partial: 部分一致（姓のみ一致など。氏名のみ）
+ * - mismatch: 不一致
+ * - unknown: 比較できない（どちらかが未取得、漢字・カナ・ローマ字で表記が異なる、前方一致が短すぎる）
+ */
+export type FieldMatch = 'match' | 'partial' | 'mismatch' | 'unknown';
+
+/**
+ * 顧客情報の照合結果
+ */
+export interface CustomerMatchScore {
+  /** スコア（0〜1） */
+  score: number;
+  /** 電話番号の照合結果 */
+  phone: FieldMatch;
+  /** 氏名の照合結果 */
+  name: FieldMatch;
+}
+
+/**
+ * 既存予約の照合結果
+ */
+export interface ReservationMatch extends CustomerMatchScore {
+  /** 照合した既存予約 */
+  reservation: ExternalReservation;
+}
+
+export interface MatchReservationsOptions {
+  /**
+   * これ未満のスコアの予約は除外する
+   * （デフォルト: 0.4 = 電話番号の一致、または電話番号を比較できない場合の氏名の一致）
+   */
+  threshold?: number;
+  /** キャンセル済みの予約も対象にする（デフォルト: false） */
+  includeCancelled?: boolean;
+}
+
+/** 照合の重み（電話番号の一致だけで特定できるよう、氏名より重くする） */
+const PHONE_WEIGHT = 0.6;
+const NAME_WEIGHT = 0.4;
+const PARTIAL_NAME_WEIGHT = 0.2;
+
+/**
+ * 氏名の表記（漢字を含むもの・カナ・ローマ字が混在するものは other）
+ */
+type NameScript = 'kana' | 'latin' | 'other';
+
+/** 前方一致を部分一致とみなす最小文字数（「ヤ」と「ヤマダ」などを除く） */
+const MIN_PARTIAL_NAME_LENGTH: Record<NameScript, number> = { kana: 3, latin: 3, other: 2 };
+
+/** 氏名の末尾の敬称 */
+const HONORIFIC_PATTERN = /\s*(?:様|さま|サマ|さん|殿)$/;
+
+/**
+ * 電話番号を正規化
+ *
+ * 国内番号は 0 から始まる10〜11桁の数字列、海外番号は + から始まる数字列にする
+ *
+ * @example
+ * ```typescript
+ * normalizePhone('０９０－１２３４－５６７８'); // => '09012345678'
+ * normalizePhone('+81 90-1234-5678');         // => '09012345678'
+ * normalizePhone('03(1234)5678');             // => '0312345678'
+ * ```
+ *
+ * @returns 正規化した電話番号（電話番号として解釈できない場合はnull）
+ */
+export function normalizePhone(phone: string): string | null {
+  const value = phone.normalize('NFKC').trim();
+  const digits = value.replace(/\D/g, '');
+  const international = value.startsWith('+');
+
+  // +81 / 81 から始まる11〜12桁（国内番号の先頭の0が省略された形）は国内表記に戻す
+  // 「+81 (0)90-...」のように0が残っている場合はそのまま使う
+  if (digits.startsWith('81') && (international || /^81\d{9,10}$/.test(digits))) {
+    const national = digits.slice(2);
+    return normalizeNational(national.startsWith('0') ? national : `0${national}`);
+  }
+  if (international) {
+    return /^\d{7,15}$/.test(digits) ? `+${digits}` : null;
+  }
+  return normalizeNational(digits);
+}
+
+/**
+ * 氏名を正規化
+ *
+ * NFKC正規化（全角英数・半角カナ・全角スペース）、空白の統一、末尾の敬称の除去、英字の小文字化を行う
+ * 姓と名の区切りは半角スペース1つに揃える（区切りがない場合はそのまま）
+ *
+ * @example
+ * ```typescript
+ * normalizeName('山田　太郎 様'); // => '山田 太郎'
+ * normalizeName('ﾔﾏﾀﾞ ﾀﾛｳ');     // => 'ヤマダ タロウ'
+ * ```
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKC')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(HONORIFIC_PATTERN, '')
+    .toLowerCase();
+}
+
+/**
+ * ひらがなをカタカナに変換
+ */
+export function toKatakana(value: string): string {
+  return value.replace(/[ぁ-ゖ]/g, (c) => String.fromCharCode(c.charCodeAt(0) + 0x60));
+}
+
+/**
+ * 顧客情報を正規化（電話番号として解釈できない場合は元の値を残す）
+ */
+export function normalizeCustomer<T extends Partial<CustomerInfo>>(customer: T): T {
+  return {
+    ...customer,
+    ...(customer.name !== undefined && { name: normalizeName(customer.name) }),
+    ...(customer.phone !== undefined && {
+      phone: normalizePhone(customer.phone) ?? customer.phone.trim(),
+    }),
+  };
+}
+
+/**
+ * 電話番号を照合
+ */
+export function matchPhone(a: string | undefined, b: string | undefined): FieldMatch {
+  const left = a ? normalizePhone(a) : null;
+  const right = b ? normalizePhone(b) : null;
+  if (!left || !right) return 'unknown';
+  return left === right ? 'match' : 'mismatch';
+}
+
+/**
+ * 氏名を照合
+ *
+ * - 空白を除いて一致すれば match（「山田太郎」と「山田 太郎」、「やまだ」と「ヤマダ」）
+ * - 姓・名のいずれかが一致すれば partial（「ヤマダ」と「ヤマダ タロウ」、姓のみの登録など）。
+ *   ただし残りの部分が同じ表記で異なる場合は mismatch（「山田 太郎」と「山田 花子」）
+ * - 区切りのない氏名で一方が他方の先頭部分の場合は、一定の文字数（漢字2文字、カナ・ローマ字3文字）
+ *   以上であれば partial、それより短ければ unknown（「山田」と「山田太郎」は partial、「ヤ」と「ヤマダ」は unknown）
+ * - 漢字・カナ・ローマ字で表記が異なる場合は、読みが分からないため unknown
+ */
+export function matchName(a: string | undefined, b: string | undefined): FieldMatch {
+  const left = a ? toKatakana(normalizeName(a)) : '';
+  const right = b ? toKatakana(normalizeName(b)) : '';
+  if (!left || !right) return 'unknown';
+
+  const leftKey = left.replace(/ /g, '');
+  const rightKey = right.replace(/ /g, '');
+  if (leftKey === rightKey) return 'match';
+
+  const script = nameScript(leftKey);
+  if (script !== nameScript(rightKey)) return 'unknown';
+
+  const leftParts = left.split(' ');
+  const rightParts = right.split(' ');
+  const shared = leftParts.filter((part) => rightParts.includes(part));
+  if (shared.length > 0) {
+    const leftRest = leftParts.filter((part) => !shared.includes(part)).join('');
+    const rightRest = rightParts.filter((part) => !shared.includes(part)).join('');
+    return leftRest && rightRest && nameScript(leftRest) === nameScript(rightRest)
+      ? 'mismatch'
+      : 'partial';
+  }
+
+  const [shorter, longer] =
+    leftKey.length <= rightKey.length ? [leftKey, rightKey] : [rightKey, leftKey];
+  if (longer.startsWith(shorter)) {
+    return shorter.length >= MIN_PARTIAL_NAME_LENGTH[script] ? 'partial' : 'unknown';
+  }
+  return 'mismatch';
+}
+
+/**
+ * 顧客情報を照合してスコアを計算
+ *
+ * スコアは電話番号の一致で 0.6、氏名の一致で 0.4（部分一致は 0.2）を加算する
+ * 電話番号・氏名のどちらかが一致しない場合は、もう一方が一致しても別の顧客とみなしてスコアを 0 にする
+ * （家族の予約など、電話番号が同じで氏名が異なる予約を取り違えないため）
+ *
+ * @param expected SmartCallから受け取った顧客情報
+ * @param candidate 予約システム上の顧客情報
+ */
+export function scoreCustomerMatch(
+  expected: Partial<CustomerInfo>,
+  candidate: Partial<CustomerInfo>
+): CustomerMatchScore {
+  const phone = matchPhone(expected.phone, candidate.phone);
+  const name = matchName(expected.name, candidate.name);
+  const score =
+    phone === 'mismatch' || name === 'mismatch'
+      ? 0
+      : (phone === 'match' ? PHONE_WEIGHT : 0) +
+        (name === 'match' ? NAME_WEIGHT : name === 'partial' ? PARTIAL_NAME_WEIGHT : 0);
+  return { score: Math.round(score * 100) / 100, phone, name };
+}
+
+/**
+ * 既存予約の一覧から顧客・予約枠が一致する予約を探す
+ *
+ * slot を指定した場合は日付・開始時刻が一致する予約のみを対象にする
+ *
+ * @returns スコアの高い順の照合結果（threshold 未満は除外）
+ */
+export function matchReservations(
+  target: { customer: Partial<CustomerInfo>; slot?: Pick<SlotInfo, 'date' | 'start_at'> },
+  candidates: ExternalReservation[],
+  options: MatchReservationsOptions = {}
+): ReservationMatch[] {
+  const { threshold = NAME_WEIGHT, includeCancelled = false } = options;
+
+  return candidates
+    .filter((reservation) => includeCancelled || reservation.status !== 'cancelled')
+    .filter(
+      (reservation) =>
+        !target.slot ||
+        (reservation.slot.date === target.slot.date &&
+          reservation.slot.start_at === target.slot.start_at)
+    )
+    .map((reservation) => ({
+      reservation,
+      ...scoreCustomerMatch(target.customer, reservation.customer ?? {}),
+    }))
+    .filter((match) => match.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * 最も一致する既存予約を取得
+ *
+ * @returns 照合結果（該当なし、または最高スコアの予約が複数あり特定できない場合はnull）
+ *
+ * @example
+ * ```typescript
+ * const reservations = await reservationListPage.fetch(reservation.slot.date);
+ * const match = findBestReservationMatch(reservation, reservations);
+ * if (!match) throw new ReservationNotFoundError('Reservation to cancel not found');
+ * await reservationListPage.cancel(match.reservation.external_reservation_id);
+ * ```
+ */
+export function findBestReservationMatch(
+  target: { customer: Partial<CustomerInfo>; slot?: Pick<SlotInfo, 'date' | 'start_at'> },
+  candidates: ExternalReservation[],
+  options: MatchReservationsOptions = {}
+): ReservationMatch | null {
+  const [best, second] = matchReservations(target, candidates, options);
+  if (!best || (second && second.score === best.score)) return null;
+  return best;
+}
+
+/**
+ * 国内番号（0から始まる10〜11桁）かどうかを確認（内部用）
+ */
+function normalizeNational(digits: string): string | null {
+  return /^0\d{9,10}$/.test(digits) ? digits : null;
+}
+
+/**
+ * 氏名の表記を判定（カタカナ（長音・中黒を含む）のみ、ローマ字のみ、それ以外）（内部用）
+ */
+function nameScript(value: string): NameScript {
+  if (/^[ァ-ヺー・]+$/.test(value)) return 'kana';
+  if (/^[a-z][a-z.'-]*$/.test(value)) return 'latin';
+  return 'other';
+}
@@ -0,0 +1,295 @@
+/**
+ * SmartCall RPA SDK - Date Utilities
+ *
+ * 予約システムのタイムゾーン（デフォルト: Asia/Tokyo）での日付・時刻の計算
+ * コンテナがUTCで動作していても、「今日」や同期期間は予約システム側の日付で扱う
+ *
+ * 日付は YYYY-MM-DD、時刻は HH:MM の文字列で扱い、日付の加減算はUTCで行う（DSTの影響を受けない）
+ */
+
+import type { ReservationSync, SyncCycleRequest } from '../types.js';
+import { isValidDate } from './validation.js';
+
+/** デフォルトのタイムゾーン（BaseSessionConfig.timezoneId のデフォルトと同じ） */
+export const DEFAULT_TIME_ZONE = 'Asia/Tokyo';
+
+/** 同期期間のデフォルト日数（API仕様: date_to のデフォルトは7日後） */
+export const DEFAULT_SYNC_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 指定タイムゾーンでの日付・時刻
+ */
+export interface ZonedDateTime {
+  /** 日付（YYYY-MM-DD） */
+  date: string;
+  /** 時刻（HH:MM） */
+  time: string;
+  /** 0:00からの分 */
+  minutes: number;
+  /** 曜日（0 = 日曜） */
+  dayOfWeek: number;
+}
+
+export interface SyncWindowOptions {
+  /** タイムゾーン（デフォルト: Asia/Tokyo） */
+  timeZone?: string;
+  /** date_to 省略時の日数（デフォルト: 7） */
+  days?: number;
+  /** 現在時刻（デフォルト: new Date()） */
+  now?: Date;
+}
+
+export interface ChunkRangeOptions {
+  /** 1チャンクの最大日数（予約システムのカレンダー1画面に表示される日数） */
+  maxDays: number;
+  /** 指定すると、チャンクの区切りをこの曜日（0 = 日曜）に揃える（週表示のカレンダー用） */
+  weekStartsOn?: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * 日時を指定タイムゾーンの日付・時刻に変換（ホストのタイムゾーンに依存しない）
+ *
+ * @example
+ * ```typescript
+ * toZonedDateTime(new Date('2025-12-19T15:30:00Z'));
+ * // => { date: '2025-12-20', time: '00:30', minutes: 30, dayOfWeek: 6 }
+ * ```
+ */
+export function toZonedDateTime(
+  date: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): ZonedDateTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((part) => [part.type, part.value])
+  );
+  const dateString = `${parts.year}-${parts.month}-${parts.day}`;
+  const minutes = Number(parts.hour) * 60 + Number(parts.minute);
+  return {
+    date: dateString,
+    time: formatMinutes(minutes),
+    minutes,
+    dayOfWeek: dayOfWeek(dateString),
+  };
+}
+
+/**
+ * 指定タイムゾーンでの今日の日付（YYYY-MM-DD）
+ */
+export function today(timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): string {
+  return toZonedDateTime(now, timeZone).date;
+}
+
+/**
+ * 実効的な同期期間を解決
+ *
+ * - reservation_sync があればそれを使用
+ * - date_from の省略時は今日（指定タイムゾーン）
+ * - date_to の省略時は date_from の7日後
+ * - date_to が date_from より前になる場合（date_to のみ指定され、今日より前など）はエラーをスローする
+ *
+ * @example
+ * ```typescript
+ * const { date_from, date_to } = resolveSyncWindow(request);
+ * ```
+ */
+export function resolveSyncWindow(
+  request: Pick<SyncCycleRequest, 'date_from' | 'date_to' | 'reservation_sync'>,
+  options: SyncWindowOptions = {}
+): ReservationSync {
+  if (request.reservation_sync) {
+    return { ...request.reservation_sync };
+  }
+
+  const { timeZone = DEFAULT_TIME_ZONE, days = DEFAULT_SYNC_DAYS, now = new Date() } = options;
+  const dateFrom = request.date_from ?? today(timeZone, now);
+  const dateTo = request.date_to ?? addDays(dateFrom, days);
+  if (dateTo < dateFrom) {
+    throw new Error(`[SmartCall SDK] date_to (${dateTo}) must not be before date_from (${dateFrom})`);
+  }
+  return { date_from: dateFrom, date_to: dateTo };
+}
+
+/**
+ * 日付に日数を加算
+ */
+export function addDays(date: string, days: number): string {
+  return formatUtcDate(new Date(toUtcTime(date) + days * DAY_MS));
+}
+
+/**
+ * 2つの日付の差（日数、to - from）
+ */
+export function diffDays(from: string, to: string): number {
+  return Math.round((toUtcTime(to) - toUtcTime(from)) / DAY_MS);
+}
+
+/**
+ * 曜日（0 = 日曜）
+ */
+export function dayOfWeek(date: string): number {
+  return new Date(toUtcTime(date)).getUTCDay();
+}
+
+/**
+ * 日付を含む週の開始日
+ *
+ * @param weekStartsOn 週の開始曜日（0 = 日曜、デフォルト: 0）
+ */
+export function startOfWeek(date: string, weekStartsOn: number = 0): string {
+  return addDays(date, -((dayOfWeek(date) - weekStartsOn + 7) % 7));
+}
+
+/**
+ * 期間内の日付を列挙（from, to を含む）
+ */
+export function eachDay(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    days.push(date);
+  }
+  return days;
+}
+
+/**
+ * 期間にかかる週の開始日を列挙（週表示のカレンダーの移動用）
+ *
+ * @param weekStartsOn 週の開始曜日（0 = 日曜、デフォルト: 0）
+ */
+export function eachWeek(from: string, to: string, weekStartsOn: number = 0): string[] {
+  const weeks: string[] = [];
+  for (let week = startOfWeek(from, weekStartsOn); week <= to; week = addDays(week, 7)) {
+    weeks.push(week);
+  }
+  return weeks;
+}
+
+/**
+ * 期間をカレンダー1画面に収まるチャンクに分割
+ *
+ * @example
+ * ```typescript
+ * // 週表示（月曜始まり）のカレンダー
+ * chunkRange({ date_from: '2025-12-18', date_to: '2025-12-25' }, { maxDays: 7, weekStartsOn: 1 });
+ * // => [{ date_from: '2025-12-18', date_to: '2025-12-21' },
+ * //     { date_from: '2025-12-22', date_to: '2025-12-25' }]
+ * ```
+ */
+export function chunkRange(range: ReservationSync, options: ChunkRangeOptions): ReservationSync[] {
+  const { maxDays, weekStartsOn } = options;
+  if (!Number.isInteger(maxDays) || maxDays <= 0) {
+    throw new Error(`[SmartCall SDK] maxDays must be a positive integer: ${maxDays}`);
+  }
+
+  const chunks: ReservationSync[] = [];
+  let start = range.date_from;
+  while (start <= range.date_to) {
+    let end = addDays(start, maxDays - 1);
+    if (weekStartsOn !== undefined) {
+      // 次の週の開始日の前日で区切る
+      const nextWeek = addDays(startOfWeek(start, weekStartsOn), 7);
+      const weekEnd = addDays(nextWeek, -1);
+      if (weekEnd < end) end = weekEnd;
+    }
+    if (end > range.date_to) end = range.date_to;
+    chunks.push({ date_from: start, date_to: end });
+    start = addDays(end, 1);
+  }
+  return chunks;
+}
+
+/**
+ * スクレイピングした日付文字列を YYYY-MM-DD に正規化
+ * 「2025/12/5」「2025年12月5日」「２０２５－１２－０５」などに対応
+ *
+ * @returns 正規化した日付（解釈できない・実在しない場合はnull）
+ */
+export function parseDate(value: string): string | null {
+  const match = /^(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})\s*日?$/.exec(
+    toHalfWidth(value).trim()
+  );
+  if (!match) return null;
+
+  const date = `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  return isValidDate(date) ? date : null;
+}
+
+/**
+ * スクレイピングした時刻文字列を HH:MM に正規化
+ * 「9:00」「09:30」「9時30分」「１０：００」などに対応（24:00 は対象外）
+ *
+ * @returns 正規化した時刻（解釈できない場合はnull）
+ */
+export function parseTime(value: string): string | null {
+  const match = /^(\d{1,2})\s*[:時]\s*(\d{1,2})?\s*分?$/.exec(toHalfWidth(value).trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (hours > 23 || minutes > 59) return null;
+  return formatMinutes(hours * 60 + minutes);
+}
+
+/**
+ * 0:00からの分を HH:MM に変換
+ */
+export function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+/**
+ * 日時を指定タイムゾーンの YYYY-MM-DD に変換
+ */
+export function formatDate(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  return toZonedDateTime(date, timeZone).date;
+}
+
+/**
+ * 日時を指定タイムゾーンの HH:MM に変換
+ */
+export function formatTime(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  return toZonedDateTime(date, timeZone).time;
+}
+
+/**
+ * YYYY-MM-DD をUTC 0:00のタイムスタンプに変換（内部用）
+ */
+function toUtcTime(date: string): number {
+  if (!isValidDate(date)) {
+    throw new Error(`[SmartCall SDK] Invalid date (expected YYYY-MM-DD): ${date}`);
+  }
+  const [y, m, d] = date.split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+function formatUtcDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * 全角数字・記号を半角に変換（内部用）
+ */
+function toHalfWidth(value: string): string {
+  return value
+    .replace(/[０-９：－／．]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/　/g, ' ');
+}
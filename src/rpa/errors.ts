@@ -0,0 +1,268 @@
+/**
+ * SmartCall RPA SDK - Error Definitions
+ *
+ * API仕様 §4.1 のエラーコードに対応するエラークラスと分類ヘルパー
+ */
+
+import type { CallbackError } from './callback.js';
+
+/**
+ * コールバックで送信するエラーコード（API仕様 §4.1 準拠）
+ */
+export type CallbackErrorCode =
+  | 'AUTH_FAILED' // 認証失敗
+  | 'SHOP_NOT_FOUND' // 店舗が見つからない
+  | 'SLOT_NOT_AVAILABLE' // 指定時間に空きなし
+  | 'DUPLICATE_RESERVATION' // 重複予約
+  | 'RESERVATION_NOT_FOUND' // キャンセル対象の予約なし
+  | 'SYSTEM_ERROR' // システムエラー
+  | 'TIMEOUT'; // タイムアウト
+
+/**
+ * エラーコード
+ *
+ * API仕様 §4.1 のコードに加え、SDK内部で区別するコードを含む。
+ * 仕様にないコードはコールバックでは SYSTEM_ERROR として送信される（メッセージの先頭にコードを付ける）
+ */
+export type RpaErrorCode =
+  | CallbackErrorCode
+  | 'ELEMENT_NOT_FOUND' // 要素が見つからない（サイト変更など）
+  | 'VERIFICATION_FAILED'; // 操作後の確認で予約システムに反映されていない
+
+/** API仕様 §4.1 のエラーコード */
+const CALLBACK_ERROR_CODES: readonly RpaErrorCode[] = [
+  'AUTH_FAILED',
+  'SHOP_NOT_FOUND',
+  'SLOT_NOT_AVAILABLE',
+  'DUPLICATE_RESERVATION',
+  'RESERVATION_NOT_FOUND',
+  'SYSTEM_ERROR',
+  'TIMEOUT',
+];
+
+export interface RpaErrorOptions {
+  /** リトライで回復する可能性があるか（省略時はエラーコードごとの既定値） */
+  retryable?: boolean;
+  /** 元のエラー */
+  cause?: unknown;
+}
+
+/**
+ * RPAエラーの基底クラス
+ *
+ * @example
+ * ```typescript
+ * if (!(await page.isVisible('.slot.available'))) {
+ *   throw new SlotNotAvailableError('指定された時間帯に空きがありません');
+ * }
+ * ```
+ */
+export class RpaError extends Error {
+  /** エラーコード */
+  readonly code: RpaErrorCode;
+  /** リトライで回復する可能性があるか */
+  readonly retryable: boolean;
+
+  constructor(code: RpaErrorCode, message: string, options: RpaErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+  }
+
+  /**
+   * コールバック用のエラー情報に変換
+   * 仕様にないコード（ELEMENT_NOT_FOUND など）は SYSTEM_ERROR にし、メッセージの先頭にコードを付ける
+   */
+  toCallbackError(): CallbackError {
+    if (CALLBACK_ERROR_CODES.includes(this.code)) {
+      return { code: this.code, message: this.message };
+    }
+    return { code: 'SYSTEM_ERROR', message: `[${this.code}] ${this.message}` };
+  }
+}
+
+/**
+ * 認証失敗（AUTH_FAILED）
+ */
+export class AuthFailedError extends RpaError {
+  constructor(message: string = 'Authentication failed', options: RpaErrorOptions = {}) {
+    super('AUTH_FAILED', message, options);
+  }
+}
+
+/**
+ * 店舗が見つからない（SHOP_NOT_FOUND）
+ */
+export class ShopNotFoundError extends RpaError {
+  constructor(message: string = 'Shop not found', options: RpaErrorOptions = {}) {
+    super('SHOP_NOT_FOUND', message, options);
+  }
+}
+
+/**
+ * 指定時間に空きなし（SLOT_NOT_AVAILABLE）
+ */
+export class SlotNotAvailableError extends RpaError {
+  constructor(message: string = 'Slot not available', options: RpaErrorOptions = {}) {
+    super('SLOT_NOT_AVAILABLE', message, options);
+  }
+}
+
+/**
+ * 重複予約（DUPLICATE_RESERVATION）
+ */
+export class DuplicateReservationError extends RpaError {
+  constructor(message: string = 'Duplicate reservation', options: RpaErrorOptions = {}) {
+    super('DUPLICATE_RESERVATION', message, options);
+  }
+}
+
+/**
+ * キャンセル対象の予約なし（RESERVATION_NOT_FOUND）
+ */
+export class ReservationNotFoundError extends RpaError {
+  constructor(message: string = 'Reservation not found', options: RpaErrorOptions = {}) {
+    super('RESERVATION_NOT_FOUND', message, options);
+  }
+}
+
+/**
+ * 要素が見つからない（ELEMENT_NOT_FOUND。コールバックでは SYSTEM_ERROR）
+ * Playwrightのロケーター・セレクターの待機がタイムアウトした場合など
+ */
+export class ElementNotFoundError extends RpaError {
+  constructor(message: string = 'Element not found', options: RpaErrorOptions = {}) {
+    super('ELEMENT_NOT_FOUND', message, options);
+  }
+}
+
+/**
+ * 操作後の確認で予約システムに反映されていない（VERIFICATION_FAILED。コールバックでは SYSTEM_ERROR）
+ */
+export class VerificationFailedError extends RpaError {
+  constructor(message: string = 'Reservation verification failed', options: RpaErrorOptions = {}) {
+    super('VERIFICATION_FAILED', message, options);
+  }
+}
+
+/**
+ * システムエラー（SYSTEM_ERROR、デフォルトでリトライ可能）
+ */
+export class RpaSystemError extends RpaError {
+  constructor(message: string = 'System error', options: RpaErrorOptions = {}) {
+    super('SYSTEM_ERROR', message, { retryable: true, ...options });
+  }
+}
+
+/**
+ * タイムアウト（TIMEOUT、デフォルトでリトライ可能）
+ */
+export class RpaTimeoutError extends RpaError {
+  constructor(message: string = 'Operation timed out', options: RpaErrorOptions = {}) {
+    super('TIMEOUT', message, { retryable: true, ...options });
+  }
+}
+
+/**
+ * エラーコードとエラークラスの対応
+ */
+const ERROR_CLASSES: Record<
+  RpaErrorCode,
+  new (message?: string, options?: RpaErrorOptions) => RpaError
+> = {
+  AUTH_FAILED: AuthFailedError,
+  SHOP_NOT_FOUND: ShopNotFoundError,
+  SLOT_NOT_AVAILABLE: SlotNotAvailableError,
+  DUPLICATE_RESERVATION: DuplicateReservationError,
+  RESERVATION_NOT_FOUND: ReservationNotFoundError,
+  ELEMENT_NOT_FOUND: ElementNotFoundError,
+  VERIFICATION_FAILED: VerificationFailedError,
+  SYSTEM_ERROR: RpaSystemError,
+  TIMEOUT: RpaTimeoutError,
+};
+
+/**
+ * ブラウザ・ページが閉じられたことによるエラーかどうかを判定
+ */
+export function isBrowserClosedError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    message.includes('Target closed') ||
+    message.includes('Browser closed') ||
+    message.includes('Protocol error') ||
+    message.includes('Session closed') ||
+    message.includes('Connection closed')
+  );
+}
+
+/** 要素の待機を示すPlaywrightのエラーメッセージ（locator.click: Timeout 30000ms exceeded など） */
+const ELEMENT_WAIT_PATTERN = /\blocator\.|waitForSelector|waiting for (?:locator|selector|getBy)/;
+
+/**
+ * 要素の待機がタイムアウトしたエラーかどうかを判定（PlaywrightのTimeoutErrorのうちロケーター・セレクター）
+ */
+export function isElementWaitError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    error.name === 'TimeoutError' &&
+    ELEMENT_WAIT_PATTERN.test(error.message)
+  );
+}
+
+/**
+ * タイムアウトによるエラーかどうかを判定
+ *
+ * SDKの RpaTimeoutError（withPage・予約ごとのタイムアウト）と、
+ * 要素の待機以外のPlaywrightのTimeoutError（ページ遷移の待機など）が対象
+ */
+export function isTimeoutError(error: unknown): boolean {
+  if (error instanceof RpaError) return error.code === 'TIMEOUT';
+  return error instanceof Error && error.name === 'TimeoutError' && !isElementWaitError(error);
+}
+
+const LOGIN_FAILURE_PATTERN = /login failed|invalid (credentials|password)|ログイン(に)?失敗/i;
+
+/**
+ * 任意のエラーをRpaErrorに分類
+ *
+ * - RpaError はそのまま返す
+ * - PlaywrightのTimeoutError（ロケーター・セレクターの待機） → ELEMENT_NOT_FOUND
+ * - PlaywrightのTimeoutError（それ以外） → TIMEOUT
+ * - ブラウザ終了系のエラー → SYSTEM_ERROR（リトライ可能）
+ * - ログイン失敗を示すメッセージ → AUTH_FAILED
+ * - それ以外 → fallbackCode（デフォルト: SYSTEM_ERROR）
+ *
+ * @param error 分類するエラー
+ * @param fallbackCode どれにも該当しない場合のエラーコード
+ */
+export function classifyError(
+  error: unknown,
+  fallbackCode: RpaErrorCode = 'SYSTEM_ERROR'
+): RpaError {
+  if (error instanceof RpaError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (isElementWaitError(error)) {
+    return new ElementNotFoundError(message, { cause: error });
+  }
+  if (isTimeoutError(error)) {
+    return new RpaTimeoutError(message, { cause: error });
+  }
+  if (isBrowserClosedError(error)) {
+    return new RpaSystemError(message, { cause: error });
+  }
+  if (LOGIN_FAILURE_PATTERN.test(message)) {
+    return new AuthFailedError(message, { cause: error });
+  }
+
+  return new ERROR_CLASSES[fallbackCode](message, { cause: error });
+}
+
+/**
+ * 任意のエラーをコールバック用のエラー情報に変換
+ */
+export function toCallbackError(error: unknown): CallbackError {
+  return classifyError(error).toCallbackError();
+}
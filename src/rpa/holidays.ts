@@ -0,0 +1,123 @@
+/**
+ * SmartCall RPA SDK - Japanese National Holidays
+ *
+ * 「国民の祝日に関する法律」に基づく祝日をオフラインで計算する（外部APIに依存しない）
+ * 2020年以降の規則（天皇誕生日 2/23、スポーツの日など）に対応し、
+ * 2020年・2021年の東京オリンピックに伴う移動、振替休日、国民の休日を含む
+ *
+ * 春分・秋分の日は計算式による推定値（1980〜2099年で有効）で、官報での公表値と異なる場合がある
+ */
+
+import { addDays, dayOfWeek } from './dates.js';
+
+/** 年ごとの移動した祝日（東京オリンピック特措法） */
+const MOVED_HOLIDAYS: Record<number, Record<string, string>> = {
+  2020: { 海の日: '07-23', スポーツの日: '07-24', 山の日: '08-10' },
+  2021: { 海の日: '07-22', スポーツの日: '07-23', 山の日: '08-08' },
+};
+
+const cache = new Map<number, Map<string, string>>();
+
+/**
+ * 指定年の祝日一覧（日付 → 祝日名）
+ *
+ * @example
+ * ```typescript
+ * getJapaneseHolidays(2025).get('2025-11-24'); // => '休日'（勤労感謝の日の振替休日）
+ * ```
+ */
+export function getJapaneseHolidays(year: number): ReadonlyMap<string, string> {
+  let holidays = cache.get(year);
+  if (!holidays) {
+    holidays = computeHolidays(year);
+    cache.set(year, holidays);
+  }
+  return holidays;
+}
+
+/**
+ * 祝日名を取得
+ * @param date 日付（YYYY-MM-DD）
+ * @returns 祝日名（祝日でない場合はnull。振替休日・国民の休日は「休日」）
+ */
+export function getJapaneseHolidayName(date: string): string | null {
+  return getJapaneseHolidays(Number(date.slice(0, 4))).get(date) ?? null;
+}
+
+/**
+ * 祝日（振替休日・国民の休日を含む）かどうか
+ * @param date 日付（YYYY-MM-DD）
+ */
+export function isJapaneseHoliday(date: string): boolean {
+  return getJapaneseHolidayName(date) !== null;
+}
+
+/**
+ * 祝日を計算（内部用）
+ */
+function computeHolidays(year: number): Map<string, string> {
+  const moved = MOVED_HOLIDAYS[year] ?? {};
+  const ymd = (monthDay: string): string => `${year}-${monthDay}`;
+  const base: Array<[string, string]> = [
+    [ymd('01-01'), '元日'],
+    [nthMonday(year, 1, 2), '成人の日'],
+    [ymd('02-11'), '建国記念の日'],
+    [ymd(`03-${pad(equinoxDay(year, 20.8431))}`), '春分の日'],
+    [ymd('04-29'), '昭和の日'],
+    [ymd('05-03'), '憲法記念日'],
+    [ymd('05-04'), 'みどりの日'],
+    [ymd('05-05'), 'こどもの日'],
+    [moved['海の日'] ? ymd(moved['海の日']) : nthMonday(year, 7, 3), '海の日'],
+    [ymd(moved['山の日'] ?? '08-11'), '山の日'],
+    [nthMonday(year, 9, 3), '敬老の日'],
+    [ymd(`09-${pad(equinoxDay(year, 23.2488))}`), '秋分の日'],
+    [moved['スポーツの日'] ? ymd(moved['スポーツの日']) : nthMonday(year, 10, 2), 'スポーツの日'],
+    [ymd('11-03'), '文化の日'],
+    [ymd('11-23'), '勤労感謝の日'],
+  ];
+  if (year >= 2020) {
+    base.push([ymd('02-23'), '天皇誕生日']);
+  }
+
+  const holidays = new Map(base);
+
+  // 国民の休日: 前日と翌日が祝日の平日
+  for (const date of [...holidays.keys()]) {
+    const next = addDays(date, 1);
+    if (!holidays.has(next) && holidays.has(addDays(date, 2)) && dayOfWeek(next) !== 0) {
+      holidays.set(next, '休日');
+    }
+  }
+
+  // 振替休日: 日曜の祝日の後の最初の平日
+  for (const date of [...holidays.keys()]) {
+    if (dayOfWeek(date) !== 0) continue;
+    let substitute = addDays(date, 1);
+    while (holidays.has(substitute)) {
+      substitute = addDays(substitute, 1);
+    }
+    holidays.set(substitute, '休日');
+  }
+
+  return new Map([...holidays].sort(([a], [b]) => (a < b ? -1 : 1)));
+}
+
+/**
+ * 第n月曜日（内部用）
+ */
+function nthMonday(year: number, month: number, n: number): string {
+  const first = `${year}-${pad(month)}-01`;
+  const offset = (8 - dayOfWeek(first)) % 7;
+  return addDays(first, offset + (n - 1) * 7);
+}
+
+/**
+ * 春分・秋分の日（内部用）
+ */
+function equinoxDay(year: number, base: number): number {
+  return Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
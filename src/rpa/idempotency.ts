@@ -0,0 +1,307 @@
+/**
+ * SmartCall RPA SDK - Idempotency Store
+ *
+ * 予約操作の結果を (reservation_id, operation) 単位で記録し、
+ * タイムアウト後の再送などで同じ操作が二重に実行されるのを防ぐ
+ */
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import type { ReservationOperation, ReservationRequest } from '../types.js';
+import type { ReservationResult } from './callback.js';
+import { createRpaLogger, type RpaLogger } from './logger.js';
+
+export interface IdempotencyStoreOptions {
+  /** 保存先ファイル（省略時はメモリのみ。指定するとプロセス再起動後も結果を保持する） */
+  filePath?: string;
+  /** 結果の保持期間（ms、デフォルト: 24時間） */
+  ttlMs?: number;
+  /**
+   * 失敗した結果も記録するか（デフォルト: false）
+   * falseの場合、失敗した操作は再送時に再実行される
+   * （run() の inDoubt で反映済みか不明と判定された失敗は常に記録される）
+   */
+  cacheFailures?: boolean;
+  /** ロガー（デフォルト: createRpaLogger()） */
+  logger?: RpaLogger;
+}
+
+/**
+ * run() のオプション
+ */
+export interface IdempotencyRunOptions {
+  /**
+   * 失敗結果が予約システムに反映済みか不明かどうかを判定
+   * （送信後にタイムアウトで打ち切った create など）
+   * trueの失敗結果は cacheFailures に関わらず記録され、再送時も再実行されない
+   */
+  inDoubt?: (result: ReservationResult) => boolean;
+}
+
+/**
+ * 冪等性の対象となる予約（update は slot / menu / staff も結果の対応付けに使われる）
+ */
+export type IdempotentReservation = Pick<ReservationRequest, 'reservation_id' | 'operation'> &
+  Partial<Pick<ReservationRequest, 'slot' | 'menu' | 'staff'>>;
+
+/**
+ * 記録された操作結果
+ */
+interface IdempotencyRecord {
+  /** 操作結果 */
+  result: ReservationResult;
+  /** 記録日時（UNIX ms） */
+  recordedAt: number;
+  /** update の変更内容（slot / menu / staff）のフィンガープリント */
+  fingerprint?: string;
+}
+
+/**
+ * 予約操作の冪等性ストア
+ *
+ * 同じ (reservation_id, operation) の操作は一度だけ実行され、
+ * 再送時は記録済みの結果を返す。実行中の操作に対する重複リクエストは、
+ * 最初の実行の完了を待ってその結果を返す。
+ *
+ * - update は変更内容（slot / menu / staff）が記録時と異なる場合、別の操作として再実行する
+ * - 反映済みか不明な失敗（run() の inDoubt 参照）は結果を記録し、再送時も再実行しない
+ *   （予約システムを確認のうえ delete() で再実行できる）。processReservations は、
+ *   予約ごとのタイムアウト・ジョブの中断で打ち切った create / update をこれとして扱う
+ *
+ * @example
+ * ```typescript
+ * const idempotency = new IdempotencyStore({ filePath: '/app/data/idempotency.json' });
+ *
+ * const result = await idempotency.run(reservation, async () => {
+ *   const externalId = await createReservation(page, reservation);
+ *   return reservationSuccess(reservation, externalId);
+ * });
+ * ```
+ */
+export class IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+  private inFlight = new Map<string, Promise<ReservationResult>>();
+  private options: Required<Omit<IdempotencyStoreOptions, 'filePath' | 'logger'>> &
+    Pick<IdempotencyStoreOptions, 'filePath'>;
+  private logger: RpaLogger;
+  private loading: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(options: IdempotencyStoreOptions = {}) {
+    this.options = {
+      ttlMs: 24 * 60 * 60 * 1000, // 24時間
+      cacheFailures: false,
+      ...options,
+    };
+    this.logger = (options.logger ?? createRpaLogger()).child({ component: 'idempotency' });
+  }
+
+  /**
+   * 操作を冪等に実行
+   *
+   * - 記録済みの場合: 操作を実行せず記録済みの結果を返す
+   * - 実行中の場合: 最初の実行の完了を待って同じ結果を返す
+   * - それ以外: 操作を実行して結果を記録する（例外がスローされた場合は記録しない）
+   *
+   * @param reservation 対象の予約（reservation_id と operation。update は slot / menu / staff も照合する）
+   * @param fn 操作
+   * @param options.inDoubt 失敗結果が反映済みか不明かどうかの判定
+   * @returns 操作結果
+   */
+  async run(
+    reservation: IdempotentReservation,
+    fn: () => Promise<ReservationResult>,
+    options: IdempotencyRunOptions = {}
+  ): Promise<ReservationResult> {
+    const key = toKey(reservation.reservation_id, reservation.operation);
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.logger.info(
+        { reservationId: reservation.reservation_id, operation: reservation.operation },
+        'Waiting for in-flight operation'
+      );
+      return structuredClone(await pending);
+    }
+
+    const execution = this.execute(key, reservation, fn, options);
+    this.inFlight.set(key, execution);
+    try {
+      return structuredClone(await execution);
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * 記録済みの結果を取得
+   * @returns 記録済みの結果（未記録・期限切れの場合はnull）
+   */
+  async get(reservationId: string, operation: ReservationOperation): Promise<ReservationResult | null> {
+    await this.ensureLoaded();
+    const record = this.records.get(toKey(reservationId, operation));
+    if (!record || this.isExpired(record)) return null;
+    return structuredClone(record.result);
+  }
+
+  /**
+   * 結果を記録
+   *
+   * @param result 操作結果
+   * @param reservation update の場合、run() で照合する変更内容（省略時は run() で再生されない）
+   */
+  async set(result: ReservationResult, reservation?: IdempotentReservation): Promise<void> {
+    await this.ensureLoaded();
+    this.records.set(toKey(result.reservation_id, result.operation), {
+      result: structuredClone(result),
+      recordedAt: Date.now(),
+      fingerprint: reservation && toFingerprint(reservation),
+    });
+    await this.save();
+  }
+
+  /**
+   * 記録を削除（手動で再実行させたい場合など）
+   * @returns 記録が存在した場合はtrue
+   */
+  async delete(reservationId: string, operation: ReservationOperation): Promise<boolean> {
+    await this.ensureLoaded();
+    const deleted = this.records.delete(toKey(reservationId, operation));
+    if (deleted) await this.save();
+    return deleted;
+  }
+
+  /**
+   * すべての記録を削除
+   */
+  async clear(): Promise<void> {
+    await this.ensureLoaded();
+    this.records.clear();
+    await this.save();
+  }
+
+  /**
+   * 操作が実行中かどうか
+   */
+  isInFlight(reservationId: string, operation: ReservationOperation): boolean {
+    return this.inFlight.has(toKey(reservationId, operation));
+  }
+
+  /**
+   * 記録済みの結果を確認し、未記録なら実行して記録（内部用）
+   */
+  private async execute(
+    key: string,
+    reservation: IdempotentReservation,
+    fn: () => Promise<ReservationResult>,
+    options: IdempotencyRunOptions
+  ): Promise<ReservationResult> {
+    await this.ensureLoaded();
+
+    const bindings = { reservationId: reservation.reservation_id, operation: reservation.operation };
+    const fingerprint = toFingerprint(reservation);
+    const record = this.records.get(key);
+    if (record && !this.isExpired(record)) {
+      if (record.fingerprint === fingerprint) {
+        this.logger.info(bindings, 'Replaying recorded result');
+        return record.result;
+      }
+      this.logger.info(bindings, 'Payload changed since recorded result, executing again');
+    }
+
+    const result = await fn();
+    const inDoubt = result.result.status === 'failed' && (options.inDoubt?.(result) ?? false);
+    if (result.result.status !== 'failed' || inDoubt || this.options.cacheFailures) {
+      this.records.set(key, { result: structuredClone(result), recordedAt: Date.now(), fingerprint });
+      await this.save();
+    }
+    if (inDoubt) {
+      this.logger.warn(
+        bindings,
+        'Operation was interrupted and may have been applied; recorded to prevent re-execution. ' +
+          'Verify in the reservation system and delete() the record to retry'
+      );
+    }
+    return result;
+  }
+
+  private isExpired(record: IdempotencyRecord): boolean {
+    return Date.now() - record.recordedAt > this.options.ttlMs;
+  }
+
+  /**
+   * ファイルから記録を読み込む（初回のみ）（内部用）
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    if (!this.options.filePath) return;
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.options.filePath, 'utf8');
+    } catch {
+      return; // ファイルがなければ空
+    }
+
+    try {
+      const records = JSON.parse(content) as Record<string, IdempotencyRecord>;
+      for (const [key, record] of Object.entries(records)) {
+        if (!this.isExpired(record)) {
+          this.records.set(key, record);
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn({ error: message }, 'Failed to load idempotency store, starting empty');
+    }
+  }
+
+  /**
+   * 期限切れの記録を削除してファイルに保存（書き込みは直列化）（内部用）
+   */
+  private save(): Promise<void> {
+    for (const [key, record] of this.records) {
+      if (this.isExpired(record)) this.records.delete(key);
+    }
+
+    const filePath = this.options.filePath;
+    if (!filePath) return Promise.resolve();
+
+    const content = JSON.stringify(Object.fromEntries(this.records));
+    const next = this.writeChain.then(async () => {
+      const tmpPath = `${filePath}.tmp`;
+      await fs.mkdir(dirname(filePath), { recursive: true });
+      await fs.writeFile(tmpPath, content, 'utf8');
+      await fs.rename(tmpPath, filePath);
+    });
+    this.writeChain = next.catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error({ error: message }, 'Failed to write idempotency store');
+    });
+    return this.writeChain;
+  }
+}
+
+function toKey(reservationId: string, operation: ReservationOperation): string {
+  return `${reservationId}:${operation}`;
+}
+
+/**
+ * update の変更内容のフィンガープリント（キー順に依存しない）（内部用）
+ * update 以外、または slot が渡されなかった場合は undefined
+ */
+function toFingerprint(reservation: IdempotentReservation): string | undefined {
+  if (reservation.operation !== 'update' || reservation.slot === undefined) return undefined;
+  const { slot, menu, staff } = reservation;
+  return JSON.stringify({ slot, menu, staff }, (_key, value: unknown) =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : value
+  );
+}
@@ -44,7 +44,14 @@ export {
   BaseBrowserSessionManager,
   type BaseSessionConfig,
   type SessionState,
+  type RecoveryTier,
+  type LoginCircuitState,
 } from './session.js';
+export {
+  SessionRegistry,
+  type SessionRegistryConfig,
+  type SessionFactoryContext,
+} from './registry.js';
 
 // Page Helpers
 export { BasePage, type PageOptions } from './page.js';
@@ -55,15 +62,63 @@ export { BrowserManager, type BrowserOptions } from './browser.js';
 export {
   sendCallback,
   buildCallbackResult,
+  resolveJobStatus,
+  reservationSuccess,
+  reservationFailed,
+  reservationError,
+  reservationConflict,
+  CallbackDeliveryError,
   type CallbackOptions,
   type CallbackResult,
+  type CallbackAttempt,
+  type CallbackDeliveryReport,
+  type JobStatus,
   type ReservationResult,
+  type ReservationResultDetail,
+  type ReservationResultStatus,
+  type RollbackStatus,
   type AvailableSlot,
+  type ExternalReservation,
+  type ExternalReservationStatus,
+  type ExternalReservationSource,
+  type AvailableSlotKey,
+  type CollectionDelta,
+  type SyncMode,
   type CallbackError,
 } from './callback.js';
 
+// Errors
+export {
+  RpaError,
+  AuthFailedError,
+  ShopNotFoundError,
+  SlotNotAvailableError,
+  DuplicateReservationError,
+  ReservationNotFoundError,
+  ElementNotFoundError,
+  VerificationFailedError,
+  RpaSystemError,
+  RpaTimeoutError,
+  classifyError,
+  toCallbackError,
+  isBrowserClosedError,
+  isTimeoutError,
+  isElementWaitError,
+  type CallbackErrorCode,
+  type RpaErrorCode,
+  type RpaErrorOptions,
+} from './errors.js';
+
 // Logging
-export { createRpaLogger, type RpaLogger } from './logger.js';
+export { createRpaLogger, type RpaLogger, type RpaLoggerOptions } from './logger.js';
+export {
+  redact,
+  redactString,
+  isRedactionDisabled,
+  DEFAULT_REDACT_PATHS,
+  DEFAULT_REDACT_PATTERNS,
+  type RedactionOptions,
+} from './redact.js';
 
 // Credentials
 export {
@@ -71,5 +126,173 @@ export {
   getOptionalCredentials,
   getCustomCredential,
   hasCredentials,
+  getShopCredentials,
+  getApiKey,
+  getSigningSecret,
   type RpaCredentials,
 } from './credentials.js';
+
+// Request Signing / Authentication
+export {
+  signPayload,
+  verifySignature,
+  captureRawBody,
+  createSignatureVerifier,
+  createApiKeyAuth,
+  SIGNATURE_HEADER,
+  SIGNATURE_TIMESTAMP_HEADER,
+  type SignatureVerificationResult,
+  type SignatureVerifierOptions,
+  type ApiKeyAuthOptions,
+} from './signature.js';
+
+// Retry Policy
+export {
+  exponentialBackoff,
+  isRetryableStatus,
+  parseRetryAfter,
+  type RetryPolicy,
+  type RetryContext,
+  type ExponentialBackoffOptions,
+} from './retry.js';
+
+// Callback Outbox
+export {
+  CallbackOutbox,
+  type CallbackOutboxOptions,
+  type OutboxEntry,
+  type OutboxEntryStatus,
+} from './outbox.js';
+
+// Date Utilities
+export {
+  DEFAULT_TIME_ZONE,
+  DEFAULT_SYNC_DAYS,
+  toZonedDateTime,
+  today,
+  resolveSyncWindow,
+  addDays,
+  diffDays,
+  dayOfWeek,
+  startOfWeek,
+  eachDay,
+  eachWeek,
+  chunkRange,
+  parseDate,
+  parseTime,
+  formatDate,
+  formatTime,
+  formatMinutes,
+  type ZonedDateTime,
+  type SyncWindowOptions,
+  type ChunkRangeOptions,
+} from './dates.js';
+
+// Slot Builder
+export {
+  buildSlotsFromIntervals,
+  buildSlotsFromCells,
+  normalizeSlots,
+  sortSlots,
+  type OpenInterval,
+  type SlotCell,
+  type BuildSlotsOptions,
+} from './slots.js';
+
+// Business Calendar
+export {
+  BusinessCalendar,
+  type BusinessCalendarOptions,
+  type BusinessHours,
+  type Weekday,
+  type WeeklyHours,
+} from './calendar.js';
+export { getJapaneseHolidays, getJapaneseHolidayName, isJapaneseHoliday } from './holidays.js';
+
+// Sync Snapshot
+export {
+  SnapshotStore,
+  applySyncDiff,
+  type SnapshotStoreOptions,
+  type SyncSnapshot,
+  type SyncData,
+  type SyncDiff,
+} from './snapshot.js';
+
+// Idempotency
+export {
+  IdempotencyStore,
+  type IdempotencyStoreOptions,
+  type IdempotentReservation,
+  type IdempotencyRunOptions,
+} from './idempotency.js';
+
+// Reservation Processing
+export {
+  processReservations,
+  createUpdateHandler,
+  createFindReservationHook,
+  type ReservationHandler,
+  type ReservationHandlers,
+  type ReservationOperationContext,
+  type ProcessReservationsOptions,
+  type UpdateStrategy,
+  type UpdateOrchestratorOptions,
+  type ReservationSearchCriteria,
+  type FoundReservation,
+  type FindReservationHook,
+  type ListReservationsHook,
+} from './reservations.js';
+
+// Customer Matching
+export {
+  normalizePhone,
+  normalizeName,
+  normalizeCustomer,
+  toKatakana,
+  matchPhone,
+  matchName,
+  scoreCustomerMatch,
+  matchReservations,
+  findBestReservationMatch,
+  type FieldMatch,
+  type CustomerMatchScore,
+  type ReservationMatch,
+  type MatchReservationsOptions,
+} from './customer.js';
+
+// Server
+export {
+  createSyncCycleHandler,
+  addHealthCheck,
+  type SyncCycleHandlerOptions,
+  type SyncCycleJobHandler,
+  type SyncCycleJobResult,
+  type SyncCycleContext,
+  type FetchReservationsHook,
+} from './server.js';
+
+// Catalog
+export {
+  syncCatalog,
+  buildCatalogResult,
+  sendCatalogCallback,
+  type CatalogMenu,
+  type CatalogStaff,
+  type CatalogData,
+  type CatalogResult,
+  type CatalogContext,
+  type FetchCatalogHook,
+  type SyncCatalogOptions,
+} from './catalog.js';
+
+// Validation
+export {
+  validateSyncCycleRequest,
+  validateExternalReservations,
+  validateCatalog,
+  isValidDate,
+  isValidTime,
+  type ValidationError,
+  type ValidationResult,
+} from './validation.js';
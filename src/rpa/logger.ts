@@ -4,6 +4,8 @@
  * 構造化ログ出力（pino風インターフェース）
  */
 
+import { redact, redactString, type RedactionOptions } from './redact.js';
+
 export interface RpaLogger {
   info(message: string): void;
   info(obj: object, message: string): void;
@@ -16,12 +18,18 @@ export interface RpaLogger {
   child(bindings: object): RpaLogger;
 }
 
+export interface RpaLoggerOptions {
+  /** 個人情報マスクの設定（デフォルト: 顧客の氏名・電話番号・メール・備考をマスク） */
+  redaction?: RedactionOptions;
+}
+
 /**
  * RPA用ロガーを作成
  *
  * 開発時はconsole、本番時はpino互換の構造化ログを出力
+ * 出力前にメッセージと付加情報の個人情報をマスクする（LOG_UNREDACTED=trueで無効化、production以外のみ）
  */
-export function createRpaLogger(context: object = {}): RpaLogger {
+export function createRpaLogger(context: object = {}, options: RpaLoggerOptions = {}): RpaLogger {
   const bindings = context;
 
   const formatMessage = (level: string, args: unknown[]): void => {
@@ -38,6 +46,10 @@ export function createRpaLogger(context: object = {}): RpaLogger {
       message = args.map(String).join(' ');
     }
 
+    // 個人情報をマスク
+    obj = redact(obj, options.redaction);
+    message = redactString(message, options.redaction);
+
     const logData = {
       level,
       time: timestamp,
@@ -77,7 +89,7 @@ export function createRpaLogger(context: object = {}): RpaLogger {
       }
     },
     child(newBindings: object): RpaLogger {
-      return createRpaLogger({ ...bindings, ...newBindings });
+      return createRpaLogger({ ...bindings, ...newBindings }, options);
     },
   };
 }
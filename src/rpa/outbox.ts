@@ -0,0 +1,445 @@
+/**
+ * SmartCall RPA SDK - Callback Outbox
+ *
+ * コールバックを送信前にファイルへ永続化し、バックグラウンドで再送する
+ * コンテナ再起動やSmartCall側の一時停止でも処理結果を失わないようにする
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import {
+  sendCallback,
+  CallbackDeliveryError,
+  type CallbackOptions,
+  type CallbackResult,
+} from './callback.js';
+import { isRetryableStatus } from './retry.js';
+import { createRpaLogger, type RpaLogger } from './logger.js';
+
+/**
+ * アウトボックスのエントリ状態
+ */
+export type OutboxEntryStatus =
+  | 'pending' // 送信待ち
+  | 'delivered' // 送信完了
+  | 'dead'; // 最大試行回数超過（デッドレター）
+
+/**
+ * アウトボックスのエントリ
+ */
+export interface OutboxEntry {
+  /** エントリID */
+  id: string;
+  /** コールバックURL */
+  callback_url: string;
+  /** 送信するコールバック結果 */
+  payload: CallbackResult;
+  /** 状態 */
+  status: OutboxEntryStatus;
+  /** 送信試行回数 */
+  attempts: number;
+  /** 登録日時（ISO 8601） */
+  created_at: string;
+  /** 次回送信予定日時（ISO 8601） */
+  next_attempt_at: string;
+  /** 最後のエラーメッセージ */
+  last_error?: string;
+}
+
+export interface CallbackOutboxOptions {
+  /** 保存ディレクトリ（デフォルト: CALLBACK_OUTBOX_DIR 環境変数、または /app/outbox） */
+  directory?: string;
+  /** デッドレターにするまでの最大試行回数（デフォルト: 10） */
+  maxAttempts?: number;
+  /** 再送間隔の初期値（ms、デフォルト: 1秒。試行ごとに倍増） */
+  baseDelayMs?: number;
+  /** 再送間隔の上限（ms、デフォルト: 5分） */
+  maxDelayMs?: number;
+  /** 送信待ちエントリの確認間隔（ms、デフォルト: 5秒） */
+  pollIntervalMs?: number;
+  /** 1回の送信試行に使うオプション（デフォルト: リトライなし） */
+  callback?: CallbackOptions;
+  /** ロガー（デフォルト: createRpaLogger()。ペイロードの個人情報はマスクされる） */
+  logger?: RpaLogger;
+}
+
+const JOURNAL_FILE = 'outbox.jsonl';
+/** この行数を追記したらジャーナルを書き直す */
+const COMPACT_THRESHOLD = 500;
+
+/**
+ * コールバックアウトボックス
+ *
+ * エントリはJSON Lines形式のジャーナル（{directory}/outbox.jsonl）に追記され、
+ * 起動時に読み込まれて未送信分が再送される。
+ * start() 前に enqueue() した場合は、その時点で start() される。
+ *
+ * @example
+ * ```typescript
+ * const outbox = new CallbackOutbox({ directory: '/app/data/outbox' });
+ * await outbox.start();
+ *
+ * // sendCallbackの代わりに使用（永続化してから送信）
+ * await outbox.enqueue(request.callback_url, result);
+ *
+ * // 確認用
+ * outbox.getPending();
+ * outbox.getDeadLetters();
+ * ```
+ */
+export class CallbackOutbox extends EventEmitter {
+  private entries = new Map<string, OutboxEntry>();
+  private options: Required<Omit<CallbackOutboxOptions, 'callback' | 'logger'>> &
+    Pick<CallbackOutboxOptions, 'callback'>;
+  private logger: RpaLogger;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private delivering = new Set<string>();
+  /** 送信中の処理（stop() で完了を待つ） */
+  private inFlight = new Set<Promise<unknown>>();
+  /** 実行中の flush（同時に1つのみ） */
+  private flushing: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private appendedLines = 0;
+  private starting: Promise<void> | null = null;
+
+  constructor(options: CallbackOutboxOptions = {}) {
+    super();
+    this.options = {
+      directory: process.env.CALLBACK_OUTBOX_DIR || '/app/outbox',
+      maxAttempts: 10,
+      baseDelayMs: 1000,
+      maxDelayMs: 5 * 60 * 1000, // 5分
+      pollIntervalMs: 5000,
+      ...options,
+    };
+    this.logger = (options.logger ?? createRpaLogger()).child({ component: 'outbox' });
+  }
+
+  /**
+   * ジャーナルを読み込み、バックグラウンド再送を開始（起動済み・起動中の場合は何もしない）
+   */
+  start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = this.startInternal().catch((error) => {
+        this.starting = null;
+        throw error;
+      });
+    }
+    return this.starting;
+  }
+
+  /**
+   * 起動処理（内部用）
+   */
+  private async startInternal(): Promise<void> {
+    await fs.mkdir(this.options.directory, { recursive: true });
+    await this.load();
+    await this.compactInBackground();
+
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, this.options.pollIntervalMs);
+    this.timer.unref();
+
+    const pending = this.getPending().length;
+    this.logger.info({ pending }, 'Callback outbox started');
+    void this.flush();
+  }
+
+  /**
+   * バックグラウンド再送を停止（送信中の処理とファイル書き込みの完了を待つ）
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.starting?.catch(() => {});
+    this.starting = null;
+    await this.flushing;
+    await Promise.allSettled([...this.inFlight]);
+    await this.writeChain;
+  }
+
+  /**
+   * コールバックを永続化してから送信を試行
+   * 送信に失敗してもエラーはスローせず、バックグラウンドで再送される
+   *
+   * @param callbackUrl コールバックURL
+   * @param result 処理結果
+   * @returns 登録したエントリ
+   * @throws ジャーナルに書き込めなかった場合（エントリは登録されず、送信もされない）
+   */
+  async enqueue(callbackUrl: string, result: CallbackResult): Promise<OutboxEntry> {
+    await this.start();
+
+    const now = new Date().toISOString();
+    const entry: OutboxEntry = {
+      id: randomUUID(),
+      callback_url: callbackUrl,
+      payload: result,
+      status: 'pending',
+      attempts: 0,
+      created_at: now,
+      next_attempt_at: now,
+    };
+
+    try {
+      await this.persist(entry);
+    } catch (error) {
+      this.entries.delete(entry.id);
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`[SmartCall SDK] Failed to persist callback to outbox: ${message}`, {
+        cause: error,
+      });
+    }
+    return (await this.deliver(entry)) ?? { ...entry };
+  }
+
+  /**
+   * 期限の来た送信待ちエントリをすべて送信試行
+   * 実行中の flush があればその完了を待つ。エラーはスローせずログに記録する
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.flushDue()
+        .catch((error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          this.logger.error({ error: message }, 'Callback outbox flush failed');
+        })
+        .finally(() => {
+          this.flushing = null;
+        });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * 期限の来た送信待ちエントリを送信（内部用）
+   */
+  private async flushDue(): Promise<void> {
+    const now = Date.now();
+    const due = this.getPending().filter(
+      (entry) => new Date(entry.next_attempt_at).getTime() <= now
+    );
+    for (const entry of due) {
+      await this.deliver(entry);
+    }
+
+    if (this.appendedLines >= COMPACT_THRESHOLD) {
+      await this.compactInBackground();
+    }
+  }
+
+  /**
+   * 送信待ちエントリ一覧
+   */
+  getPending(): OutboxEntry[] {
+    return this.list('pending');
+  }
+
+  /**
+   * デッドレター（最大試行回数超過）一覧
+   */
+  getDeadLetters(): OutboxEntry[] {
+    return this.list('dead');
+  }
+
+  /**
+   * デッドレターを送信待ちに戻す
+   *
+   * @param id エントリID
+   * @returns 対象が存在した場合はtrue
+   */
+  async retryDeadLetter(id: string): Promise<boolean> {
+    const entry = this.entries.get(id);
+    if (!entry || entry.status !== 'dead') return false;
+
+    await this.persist({
+      ...entry,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+    });
+    void this.flush();
+    return true;
+  }
+
+  /**
+   * エントリを1件送信（内部用）
+   * @returns 送信後のエントリ（送信中・対象外の場合はnull）
+   */
+  private deliver(entry: OutboxEntry): Promise<OutboxEntry | null> {
+    const delivery = this.deliverEntry(entry);
+    this.inFlight.add(delivery);
+    void delivery.finally(() => this.inFlight.delete(delivery)).catch(() => {});
+    return delivery;
+  }
+
+  /**
+   * 送信してエントリを更新（内部用）
+   */
+  private async deliverEntry(entry: OutboxEntry): Promise<OutboxEntry | null> {
+    if (this.delivering.has(entry.id)) return null;
+    this.delivering.add(entry.id);
+
+    try {
+      const current = this.entries.get(entry.id);
+      if (!current || current.status !== 'pending') return null;
+
+      const attempts = current.attempts + 1;
+      try {
+        await sendCallback(current.callback_url, current.payload, {
+          retries: 0,
+          logger: this.logger,
+          ...this.options.callback,
+        });
+        const delivered: OutboxEntry = { ...current, status: 'delivered', attempts };
+        // 送信後の状態更新は書き込めなくても続行する（再起動後に再送される可能性がある）
+        await this.persist(delivered).catch(() => {});
+        this.emit('delivered', delivered);
+        return delivered;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // リトライ不可能なステータス（4xx）は再送しても成功しないため即デッドレター
+        const lastStatus =
+          error instanceof CallbackDeliveryError ? error.report.attempts.at(-1)?.status : null;
+        const dead =
+          attempts >= this.options.maxAttempts ||
+          (lastStatus != null && !isRetryableStatus(lastStatus));
+        const next = new Date(Date.now() + this.backoffDelay(attempts));
+        const failed: OutboxEntry = {
+          ...current,
+          status: dead ? 'dead' : 'pending',
+          attempts,
+          last_error: message,
+          next_attempt_at: next.toISOString(),
+        };
+
+        await this.persist(failed).catch(() => {});
+
+        if (dead) {
+          this.logger.error(
+            { entryId: current.id, jobId: current.payload.job_id, attempts, error: message },
+            'Callback dead-lettered'
+          );
+          this.emit('deadLetter', failed);
+        } else {
+          this.logger.warn(
+            {
+              entryId: current.id,
+              jobId: current.payload.job_id,
+              attempts,
+              nextAttemptAt: next.toISOString(),
+              error: message,
+            },
+            'Callback delivery failed, will retry'
+          );
+        }
+        return failed;
+      }
+    } finally {
+      this.delivering.delete(entry.id);
+    }
+  }
+
+  /**
+   * 再送間隔を計算（指数バックオフ + ジッター）（内部用）
+   */
+  private backoffDelay(attempts: number): number {
+    const exponential = this.options.baseDelayMs * 2 ** (attempts - 1);
+    const capped = Math.min(exponential, this.options.maxDelayMs);
+    return Math.round(capped * (0.5 + Math.random() * 0.5));
+  }
+
+  /**
+   * 状態で絞り込んだエントリ一覧（内部用）
+   */
+  private list(status: OutboxEntryStatus): OutboxEntry[] {
+    return [...this.entries.values()]
+      .filter((entry) => entry.status === status)
+      .map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * エントリを更新してジャーナルに追記（内部用）
+   * 追記に失敗した場合はrejectする
+   */
+  private async persist(entry: OutboxEntry): Promise<void> {
+    if (entry.status === 'delivered') {
+      this.entries.delete(entry.id);
+    } else {
+      this.entries.set(entry.id, entry);
+    }
+    this.emit('update', entry);
+
+    await this.enqueueWrite(async () => {
+      await fs.appendFile(this.journalPath(), JSON.stringify(entry) + '\n', 'utf8');
+      this.appendedLines++;
+    });
+  }
+
+  /**
+   * ジャーナルを読み込む（同一IDは最後の行が有効）（内部用）
+   */
+  private async load(): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.journalPath(), 'utf8');
+    } catch {
+      return; // ファイルがなければ空
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as OutboxEntry;
+        if (entry.status === 'delivered') {
+          this.entries.delete(entry.id);
+        } else {
+          this.entries.set(entry.id, entry);
+        }
+      } catch {
+        // 書き込み途中で終了した行は無視
+        this.logger.warn('Skipping corrupted outbox journal line');
+      }
+    }
+  }
+
+  /**
+   * ジャーナルを現在の未完了エントリのみで書き直す（内部用）
+   */
+  private async compact(): Promise<void> {
+    const tmpPath = `${this.journalPath()}.tmp`;
+    const lines = [...this.entries.values()].map((entry) => JSON.stringify(entry) + '\n');
+    await fs.writeFile(tmpPath, lines.join(''), 'utf8');
+    await fs.rename(tmpPath, this.journalPath());
+    this.appendedLines = 0;
+  }
+
+  /**
+   * ジャーナルを書き直す（失敗してもログに記録して続行する）（内部用）
+   */
+  private compactInBackground(): Promise<void> {
+    return this.enqueueWrite(() => this.compact()).catch(() => {});
+  }
+
+  /**
+   * ファイル書き込みを直列化（内部用）
+   * 失敗した書き込みはログに記録してrejectする（後続の書き込みは続行する）
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(write);
+    this.writeChain = next.catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error({ error: message }, 'Failed to write callback outbox');
+    });
+    return next;
+  }
+
+  private journalPath(): string {
+    return join(this.options.directory, JOURNAL_FILE);
+  }
+}
@@ -11,6 +11,8 @@ export interface PageOptions {
   timeout?: number;
   /** 待機時間（ms）*/
   waitTime?: number;
+  /** 中断シグナル（withPageから渡されるsignal。abort後の操作はエラーになる） */
+  signal?: AbortSignal;
 }
 
 /**
@@ -33,10 +35,20 @@ export interface PageOptions {
  *   }
  * }
  * ```
+ *
+ * withPageのsignalを渡すと、タイムアウト後のヘルパー呼び出しは即座に中断される:
+ *
+ * ```typescript
+ * await session.withPage(async (page, signal) => {
+ *   const loginPage = new LoginPage(page, { signal });
+ *   await loginPage.login(id, password);
+ * });
+ * ```
  */
 export class BasePage {
   protected readonly page: Page;
-  protected readonly options: Required<PageOptions>;
+  protected readonly options: Required<Omit<PageOptions, 'signal'>>;
+  protected readonly signal?: AbortSignal;
 
   constructor(page: Page, options: PageOptions = {}) {
     this.page = page;
@@ -44,12 +56,21 @@ export class BasePage {
       timeout: options.timeout ?? 30000,
       waitTime: options.waitTime ?? 1000,
     };
+    this.signal = options.signal;
+  }
+
+  /**
+   * 中断済みならエラーをスロー
+   */
+  protected throwIfAborted(): void {
+    this.signal?.throwIfAborted();
   }
 
   /**
    * 要素をクリック
    */
   protected async click(selector: string, options?: { force?: boolean }): Promise<void> {
+    this.throwIfAborted();
     await this.page.click(selector, {
       timeout: this.options.timeout,
       force: options?.force,
@@ -60,6 +81,7 @@ export class BasePage {
    * テキストを入力
    */
   protected async fill(selector: string, value: string): Promise<void> {
+    this.throwIfAborted();
     await this.page.fill(selector, value, {
       timeout: this.options.timeout,
     });
@@ -69,6 +91,7 @@ export class BasePage {
    * セレクトボックスで値を選択
    */
   protected async selectOption(selector: string, value: string | string[]): Promise<void> {
+    this.throwIfAborted();
     await this.page.selectOption(selector, value, {
       timeout: this.options.timeout,
     });
@@ -78,6 +101,7 @@ export class BasePage {
    * 要素のテキストを取得
    */
   protected async getText(selector: string): Promise<string | null> {
+    this.throwIfAborted();
     return this.page.textContent(selector, {
       timeout: this.options.timeout,
     });
@@ -87,6 +111,7 @@ export class BasePage {
    * 要素の属性を取得
    */
   protected async getAttribute(selector: string, name: string): Promise<string | null> {
+    this.throwIfAborted();
     return this.page.getAttribute(selector, name, {
       timeout: this.options.timeout,
     });
@@ -96,6 +121,7 @@ export class BasePage {
    * 要素が表示されているか確認
    */
   protected async isVisible(selector: string): Promise<boolean> {
+    this.throwIfAborted();
     return this.page.isVisible(selector);
   }
 
@@ -106,6 +132,7 @@ export class BasePage {
     selector: string,
     options?: { state?: 'visible' | 'hidden' | 'attached' | 'detached' }
   ): Promise<Locator> {
+    this.throwIfAborted();
     await this.page.waitForSelector(selector, {
       timeout: this.options.timeout,
       state: options?.state ?? 'visible',
@@ -117,6 +144,7 @@ export class BasePage {
    * ナビゲーションを待機
    */
   protected async waitForNavigation(): Promise<void> {
+    this.throwIfAborted();
     await this.page.waitForLoadState('networkidle', {
       timeout: this.options.timeout,
     });
@@ -126,22 +154,41 @@ export class BasePage {
    * URLを待機
    */
   protected async waitForURL(urlPattern: string | RegExp): Promise<void> {
+    this.throwIfAborted();
     await this.page.waitForURL(urlPattern, {
       timeout: this.options.timeout,
     });
   }
 
   /**
-   * 固定時間待機
+   * 固定時間待機（中断シグナルがabortされると即座に終了してエラーをスロー）
    */
   protected async wait(ms?: number): Promise<void> {
-    await this.page.waitForTimeout(ms ?? this.options.waitTime);
+    this.throwIfAborted();
+    const signal = this.signal;
+    if (!signal) {
+      await this.page.waitForTimeout(ms ?? this.options.waitTime);
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms ?? this.options.waitTime);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
    * URLに遷移
    */
   protected async goto(url: string): Promise<void> {
+    this.throwIfAborted();
     await this.page.goto(url, {
       timeout: this.options.timeout,
       waitUntil: 'networkidle',
@@ -166,6 +213,7 @@ export class BasePage {
    * 要素一覧を取得してテキストを抽出
    */
   protected async getAllTexts(selector: string): Promise<string[]> {
+    this.throwIfAborted();
     const elements = await this.page.locator(selector).all();
     return Promise.all(elements.map((el) => el.textContent().then((t) => t?.trim() ?? '')));
   }
@@ -174,6 +222,7 @@ export class BasePage {
    * 要素の数を取得
    */
   protected async count(selector: string): Promise<number> {
+    this.throwIfAborted();
     return this.page.locator(selector).count();
   }
 
@@ -181,6 +230,7 @@ export class BasePage {
    * フォーム送信を待機してクリック
    */
   protected async submitAndWait(selector: string): Promise<void> {
+    this.throwIfAborted();
     await Promise.all([
       this.page.waitForLoadState('networkidle'),
       this.click(selector),
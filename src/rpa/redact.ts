@@ -0,0 +1,148 @@
+/**
+ * SmartCall RPA SDK - PII Redaction
+ *
+ * ログ出力前に顧客の個人情報（氏名・電話番号・メールアドレス・備考）をマスクする
+ * createRpaLoggerとコールバックのログで共通に使用される
+ */
+
+export interface RedactionOptions {
+  /**
+   * マスクするフィールドのパス（末尾一致。配列のインデックスは無視される）
+   * 例: 'customer.name' は reservations[0].customer.name にも一致する
+   */
+  paths?: string[];
+  /** 文字列中でマスクするパターン（gフラグ必須） */
+  patterns?: RegExp[];
+  /** マスク後の文字列（デフォルト: [REDACTED]） */
+  mask?: string;
+}
+
+/** デフォルトでマスクするフィールド */
+export const DEFAULT_REDACT_PATHS = [
+  'customer.name',
+  'customer.phone',
+  'customer.email',
+  'customer.notes',
+  'email',
+  'notes',
+];
+
+/**
+ * 日本の電話番号（090-1234-5678、03 1234 5678、+81-90-1234-5678 など）
+ *
+ * 0始まりの10桁、または 0X0 始まり（携帯・IP電話など）の11桁（+81 の場合は先頭の0を除く）。
+ * 前後に数字が続く場合（ハイフン区切りを含む）は一致しない
+ * （'2025-08-05 1234' のような日付や、'012 3456 7890' のような桁数の合わない数字列）
+ */
+const JP_PHONE_PATTERN =
+  /(?<![\w+]|\d-)(?:\+81[-\s]?|0)(?:[1-9](?:[-\s]?\d){8}|[2-9]0(?:[-\s]?\d){8})(?!-?\d)/g;
+/** メールアドレス */
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+/** デフォルトでマスクするパターン */
+export const DEFAULT_REDACT_PATTERNS = [JP_PHONE_PATTERN, EMAIL_PATTERN];
+
+const DEFAULT_MASK = '[REDACTED]';
+
+/**
+ * 識別子のキー（job_id、external_reservation_id、callbackId など）
+ * 値がパターンに一致してもマスクしない（0始まりの数字列のIDが電話番号と誤判定されるのを防ぐ）
+ */
+const ID_KEY_PATTERN = /(?:^|_)id$|[a-z]Id$/;
+
+/**
+ * マスクが無効化されているか
+ *
+ * ローカル開発用に LOG_UNREDACTED=true で無効化できる（production環境では無視される）
+ */
+export function isRedactionDisabled(): boolean {
+  return process.env.LOG_UNREDACTED === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * 文字列中の個人情報パターンをマスク
+ */
+export function redactString(value: string, options: RedactionOptions = {}): string {
+  if (isRedactionDisabled()) return value;
+
+  const mask = options.mask ?? DEFAULT_MASK;
+  return (options.patterns ?? DEFAULT_REDACT_PATTERNS).reduce(
+    (result, pattern) => result.replace(pattern, mask),
+    value
+  );
+}
+
+/**
+ * オブジェクトの個人情報をマスクしたコピーを返す（元のオブジェクトは変更しない）
+ * 識別子のキー（*_id、*Id）の値はパターンによるマスクの対象外
+ *
+ * @example
+ * ```typescript
+ * redact({ customer: { name: '山田 太郎', phone: '090-1234-5678' } });
+ * // => { customer: { name: '[REDACTED]', phone: '[REDACTED]' } }
+ * ```
+ */
+export function redact<T>(value: T, options: RedactionOptions = {}): T {
+  if (isRedactionDisabled()) return value;
+
+  const paths = (options.paths ?? DEFAULT_REDACT_PATHS).map((p) => p.split('.'));
+  const mask = options.mask ?? DEFAULT_MASK;
+  return walk(value, [], paths, mask, options, new WeakSet()) as T;
+}
+
+/**
+ * 再帰的にマスク（内部用）
+ */
+function walk(
+  value: unknown,
+  keyPath: string[],
+  paths: string[][],
+  mask: string,
+  options: RedactionOptions,
+  seen: WeakSet<object>
+): unknown {
+  if (typeof value === 'string') {
+    return redactString(value, options);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message, options) };
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => walk(item, keyPath, paths, mask, options, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = [...keyPath, key];
+    if (child !== undefined && child !== null && matchesPath(childPath, paths)) {
+      result[key] = mask;
+    } else if (typeof child === 'string' && ID_KEY_PATTERN.test(key)) {
+      result[key] = child;
+    } else {
+      result[key] = walk(child, childPath, paths, mask, options, seen);
+    }
+  }
+  return result;
+}
+
+/**
+ * キーパスの末尾がいずれかのパスに一致するか（内部用）
+ */
+function matchesPath(keyPath: string[], paths: string[][]): boolean {
+  return paths.some(
+    (path) =>
+      path.length <= keyPath.length &&
+      path.every((segment, i) => segment === keyPath[keyPath.length - path.length + i])
+  );
+}
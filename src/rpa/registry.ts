@@ -0,0 +1,322 @@
+/**
+ * SessionRegistry - 店舗ごとのブラウザセッション管理
+ *
+ * 1つのChromiumを共有し、店舗（external_shop_id）ごとに独立した
+ * BrowserContextを持つセッションを遅延生成する
+ */
+
+import { EventEmitter } from 'events';
+import { join } from 'path';
+import { chromium, type Browser, type Page } from 'playwright';
+import type { BaseBrowserSessionManager, BaseSessionConfig } from './session.js';
+import { getOptionalCredentials, getShopCredentials, type RpaCredentials } from './credentials.js';
+import { RpaSystemError } from './errors.js';
+import { createRpaLogger, type RpaLogger } from './logger.js';
+
+/**
+ * セッション生成時に渡される情報
+ */
+export interface SessionFactoryContext {
+  /** セッション設定（共有ブラウザのbrowserFactoryを含む。コンストラクタにそのまま渡す） */
+  config: BaseSessionConfig;
+  /** 店舗の認証情報（未設定の場合はnull） */
+  credentials: RpaCredentials | null;
+}
+
+/**
+ * レジストリ設定
+ */
+export interface SessionRegistryConfig<S extends BaseBrowserSessionManager> {
+  /** セッション生成関数 */
+  createSession: (shopKey: string, context: SessionFactoryContext) => S;
+  /**
+   * 店舗ごとの認証情報を取得
+   * デフォルト: getShopCredentials(shopKey)、未設定ならgetOptionalCredentials()
+   */
+  getCredentials?: (shopKey: string) => RpaCredentials | null | Promise<RpaCredentials | null>;
+  /** 各セッションに渡す共通設定 */
+  sessionConfig?: Omit<BaseSessionConfig, 'browserFactory' | 'storageStatePath'>;
+  /** 店舗ごとのログイン状態の保存ディレクトリ（{dir}/{shopKey}.json に保存） */
+  storageStateDir?: string;
+  /** アイドルセッションを破棄するまでの時間（ms、デフォルト: 30分） */
+  idleTimeoutMs?: number;
+  /** 同時に保持するコンテキスト数の上限（デフォルト: 5） */
+  maxContexts?: number;
+  /** ロガー（デフォルト: createRpaLogger()） */
+  logger?: RpaLogger;
+}
+
+/**
+ * 店舗ごとのセッションレジストリ
+ *
+ * withPage() の実行中（セッションの作成・Mutexの待機を含む）の店舗のセッションは、
+ * 上限超過・アイドル時間超過で破棄されない。エラー状態のセッションは使用中でなければ破棄される
+ *
+ * @example
+ * ```typescript
+ * const registry = new SessionRegistry({
+ *   createSession: (shopId, { config, credentials }) =>
+ *     new MySessionManager(shopId, credentials, config),
+ *   maxContexts: 3,
+ * });
+ *
+ * await registry.withPage('73510325', async (page) => {
+ *   // 店舗73510325のセッションでページ操作
+ * });
+ * ```
+ */
+export class SessionRegistry<
+  S extends BaseBrowserSessionManager = BaseBrowserSessionManager,
+> extends EventEmitter {
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private sessions = new Map<string, S>();
+  private pending = new Map<string, Promise<S>>();
+  /** 店舗ごとの最終利用時刻（キープアライブは含まない） */
+  private lastUsed = new Map<string, number>();
+  /** 店舗ごとの実行中・待機中の withPage() の数 */
+  private activeUses = new Map<string, number>();
+  private evictionTimer: ReturnType<typeof setInterval> | null = null;
+  private config: Required<
+    Omit<
+      SessionRegistryConfig<S>,
+      'getCredentials' | 'sessionConfig' | 'storageStateDir' | 'logger'
+    >
+  > &
+    Pick<SessionRegistryConfig<S>, 'getCredentials' | 'sessionConfig' | 'storageStateDir'>;
+  private logger: RpaLogger;
+
+  constructor(config: SessionRegistryConfig<S>) {
+    super();
+    this.config = {
+      idleTimeoutMs: 30 * 60 * 1000, // 30分
+      maxContexts: 5,
+      ...config,
+    };
+    this.logger = (config.logger ?? createRpaLogger()).child({ component: 'session-registry' });
+  }
+
+  /**
+   * 店舗のセッションを取得（未作成なら作成して開始）
+   */
+  async get(shopKey: string): Promise<S> {
+    this.lastUsed.set(shopKey, Date.now());
+
+    const existing = this.sessions.get(shopKey);
+    if (existing) return existing;
+
+    // 同一店舗への同時リクエストは作成処理を共有する
+    const inFlight = this.pending.get(shopKey);
+    if (inFlight) return inFlight;
+
+    const creating = this.createAndStart(shopKey);
+    this.pending.set(shopKey, creating);
+    try {
+      return await creating;
+    } finally {
+      this.pending.delete(shopKey);
+    }
+  }
+
+  /**
+   * 店舗のセッションでMutex付きページ操作を行う
+   *
+   * @param shopKey 店舗キー（external_shop_id）
+   * @param fn ページを使用する処理
+   * @param timeoutMs タイムアウト時間（デフォルト: 60秒）
+   */
+  async withPage<T>(
+    shopKey: string,
+    fn: (page: Page, signal: AbortSignal) => Promise<T>,
+    timeoutMs?: number
+  ): Promise<T> {
+    this.activeUses.set(shopKey, (this.activeUses.get(shopKey) ?? 0) + 1);
+    try {
+      const session = await this.get(shopKey);
+      return await session.withPage(fn, timeoutMs);
+    } finally {
+      this.lastUsed.set(shopKey, Date.now());
+      const remaining = (this.activeUses.get(shopKey) ?? 1) - 1;
+      if (remaining > 0) {
+        this.activeUses.set(shopKey, remaining);
+      } else {
+        this.activeUses.delete(shopKey);
+      }
+    }
+  }
+
+  /**
+   * セッションが存在するか確認
+   */
+  has(shopKey: string): boolean {
+    return this.sessions.has(shopKey);
+  }
+
+  /**
+   * 保持しているセッションの店舗キー一覧
+   */
+  keys(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  /**
+   * 店舗のセッションを終了して破棄
+   */
+  async evict(shopKey: string): Promise<void> {
+    const session = this.sessions.get(shopKey);
+    if (!session) return;
+
+    this.sessions.delete(shopKey);
+    this.lastUsed.delete(shopKey);
+    try {
+      await session.close();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn({ shopKey, error: message }, 'Failed to close session, force closing');
+      await session.forceClose();
+    }
+    this.emit('sessionEvicted', shopKey);
+    this.logger.info({ shopKey }, 'Session evicted');
+  }
+
+  /**
+   * すべてのセッションと共有ブラウザを終了
+   */
+  async close(): Promise<void> {
+    if (this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+
+    await Promise.allSettled([...this.pending.values()]);
+    await Promise.all(this.keys().map((key) => this.evict(key)));
+
+    if (this.browser) {
+      try {
+        await this.browser.close();
+      } catch {
+        // エラーを無視
+      }
+      this.browser = null;
+    }
+    this.logger.info('Closed');
+  }
+
+  /**
+   * セッションを作成して開始（内部用）
+   */
+  private async createAndStart(shopKey: string): Promise<S> {
+    await this.ensureCapacity();
+
+    const credentials = this.config.getCredentials
+      ? await this.config.getCredentials(shopKey)
+      : getShopCredentials(shopKey) ?? getOptionalCredentials();
+
+    const session = this.config.createSession(shopKey, {
+      config: {
+        ...this.config.sessionConfig,
+        browserFactory: () => this.getBrowser(),
+        storageStatePath: this.config.storageStateDir
+          ? join(this.config.storageStateDir, `${shopKey.replace(/[^A-Za-z0-9_-]/g, '_')}.json`)
+          : undefined,
+      },
+      credentials,
+    });
+
+    try {
+      await session.start();
+    } catch (error) {
+      // 開始に失敗したセッションのコンテキストを解放
+      await session.forceClose();
+      this.lastUsed.delete(shopKey);
+      throw error;
+    }
+
+    this.sessions.set(shopKey, session);
+    this.startEviction();
+    this.emit('sessionCreated', shopKey);
+    this.logger.info({ shopKey }, 'Session created');
+    return session;
+  }
+
+  /**
+   * コンテキスト数の上限を超える場合、使用中でないセッションを破棄（内部用）
+   * エラー状態のセッション、最終利用が古いセッションの順に破棄する
+   */
+  private async ensureCapacity(): Promise<void> {
+    if (this.sessions.size + this.pending.size < this.config.maxContexts) return;
+
+    const idle = [...this.sessions.entries()]
+      .filter(([key, session]) => !this.isInUse(key) && session.getState() !== 'busy')
+      .sort(
+        ([a, sessionA], [b, sessionB]) =>
+          Number(sessionB.getState() === 'error') - Number(sessionA.getState() === 'error') ||
+          (this.lastUsed.get(a) ?? 0) - (this.lastUsed.get(b) ?? 0)
+      )
+      .map(([key]) => key);
+
+    if (idle.length === 0) {
+      throw new RpaSystemError(
+        `Session limit reached (maxContexts: ${this.config.maxContexts})`
+      );
+    }
+    await this.evict(idle[0]);
+  }
+
+  /**
+   * 共有ブラウザを取得（未起動・切断時は起動）（内部用）
+   */
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.isConnected()) return this.browser;
+    if (this.launching) return this.launching;
+
+    const sessionConfig = this.config.sessionConfig ?? {};
+    this.launching = chromium.launch({
+      headless: sessionConfig.headless ?? true,
+      args: sessionConfig.browserArgs ?? ['--no-sandbox', '--disable-setuid-sandbox'],
+    });
+    try {
+      this.browser = await this.launching;
+      this.logger.info('Shared browser launched');
+      return this.browser;
+    } finally {
+      this.launching = null;
+    }
+  }
+
+  /**
+   * アイドルセッションの定期破棄を開始（内部用）
+   */
+  private startEviction(): void {
+    if (this.evictionTimer) return;
+
+    const interval = Math.min(this.config.idleTimeoutMs, 60 * 1000);
+    this.evictionTimer = setInterval(() => {
+      void this.evictIdle();
+    }, interval);
+    this.evictionTimer.unref();
+  }
+
+  /**
+   * アイドル時間を超えたセッションとエラー状態のセッションを破棄（使用中のものを除く）（内部用）
+   */
+  private async evictIdle(): Promise<void> {
+    const now = Date.now();
+    for (const [key, session] of this.sessions) {
+      if (this.isInUse(key)) continue;
+
+      const state = session.getState();
+      const idleMs = now - (this.lastUsed.get(key) ?? 0);
+      if (state === 'error' || (state === 'ready' && idleMs >= this.config.idleTimeoutMs)) {
+        await this.evict(key);
+      }
+    }
+  }
+
+  /**
+   * 店舗のセッションが withPage() で使用中・待機中か（内部用）
+   */
+  private isInUse(shopKey: string): boolean {
+    return (this.activeUses.get(shopKey) ?? 0) > 0;
+  }
+}
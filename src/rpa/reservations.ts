@@ -0,0 +1,726 @@
+/**
+ * SmartCall RPA SDK - Reservation Processing
+ *
+ * sync-cycleリクエストの予約操作（create / update / cancel）を順に実行し、
+ * コールバック用の予約操作結果リストを構築する
+ */
+
+import type { Page } from 'playwright';
+import type {
+  CustomerInfo,
+  ReservationOperation,
+  ReservationRequest,
+  SlotInfo,
+  StaffInfo,
+} from '../types.js';
+import {
+  reservationConflict,
+  reservationError,
+  reservationFailed,
+  reservationSuccess,
+  type ExternalReservation,
+  type ReservationResult,
+} from './callback.js';
+import { findBestReservationMatch, type MatchReservationsOptions } from './customer.js';
+import { ReservationNotFoundError, RpaTimeoutError, VerificationFailedError } from './errors.js';
+import { createRpaLogger, type RpaLogger } from './logger.js';
+import type { ScreenshotManager } from './screenshot.js';
+import type { IdempotencyStore } from './idempotency.js';
+
+/**
+ * 予約操作ハンドラーに渡されるコンテキスト
+ */
+export interface ReservationOperationContext {
+  /** 予約単位のタイムアウト・ジョブのタイムアウトで中断されるシグナル */
+  signal: AbortSignal;
+  /** 予約IDを含むロガー */
+  logger: RpaLogger;
+}
+
+/**
+ * 予約操作ハンドラー
+ *
+ * 戻り値:
+ * - string: 予約システム側の予約IDとして成功結果を構築
+ * - ReservationResult: そのまま結果として使用（競合・失敗を返す場合など）
+ * - void: リクエストの external_reservation_id で成功結果を構築
+ *
+ * 例外をスローした場合は classifyError() で分類された失敗結果になる
+ */
+export type ReservationHandler = (
+  page: Page,
+  reservation: ReservationRequest,
+  context: ReservationOperationContext
+) => Promise<string | ReservationResult | void>;
+
+/**
+ * 操作種別ごとのハンドラー（未指定の操作は失敗結果になる）
+ *
+ * update が未定義で create と cancel が定義されている場合、
+ * update はキャンセル＋新規作成で実行される（createUpdateHandler参照）
+ */
+export type ReservationHandlers = Partial<Record<ReservationOperation, ReservationHandler>>;
+
+/**
+ * キャンセル＋新規作成による update の実行順序
+ *
+ * - create_then_cancel: 新しい予約を作成してから元の予約をキャンセル（枠を失わない。デフォルト）
+ * - cancel_then_create: 元の予約をキャンセルしてから新しい予約を作成（同じ枠への変更が可能）
+ */
+export type UpdateStrategy = 'create_then_cancel' | 'cancel_then_create';
+
+export interface UpdateOrchestratorOptions {
+  /** 実行順序（デフォルト: create_then_cancel） */
+  strategy?: UpdateStrategy;
+  /**
+   * キャンセルした元の予約を復元するハンドラー（cancel_then_create の補償処理）
+   * 復元後の予約システム側の予約IDを返す（void の場合は元のIDとみなす）
+   * reservation.external_reservation_id には元の予約IDが入る
+   */
+  restore?: ReservationHandler;
+}
+
+/**
+ * 操作後の確認で予約を検索する条件
+ */
+export interface ReservationSearchCriteria {
+  /** 予約システム側の予約ID（分かっている場合） */
+  external_reservation_id?: string;
+  /** 予約枠（キャンセル済みの変更前予約を確認する場合は省略される） */
+  slot?: SlotInfo;
+  /** 顧客情報 */
+  customer: CustomerInfo;
+  /** スタッフ情報 */
+  staff?: StaffInfo;
+}
+
+/**
+ * 予約システム上で見つかった予約
+ */
+export interface FoundReservation {
+  /** 予約システム側の予約ID */
+  external_reservation_id: string;
+  /** 日付（YYYY-MM-DD） */
+  date: string;
+  /** 開始時刻（HH:MM） */
+  start_at: string;
+  /** キャンセル済みかどうか */
+  cancelled?: boolean;
+}
+
+/**
+ * 予約システムから予約を検索するフック（操作後の確認に使用）
+ * @returns 見つかった予約（存在しない場合はnull）
+ */
+export type FindReservationHook = (
+  page: Page,
+  criteria: ReservationSearchCriteria,
+  context: ReservationOperationContext
+) => Promise<FoundReservation | null>;
+
+/**
+ * 予約システムの予約一覧を取得する関数（createFindReservationHook用）
+ * criteria.slot があればその日の予約一覧、なければ顧客で検索した予約一覧などを返す
+ */
+export type ListReservationsHook = (
+  page: Page,
+  criteria: ReservationSearchCriteria,
+  context: ReservationOperationContext
+) => Promise<ExternalReservation[]>;
+
+export interface ProcessReservationsOptions {
+  /**
+   * 予約1件あたりのタイムアウト（ms、デフォルト: 30秒）
+   * タイムアウトした場合、ページの状態が不明になるため残りの予約は実行しない
+   */
+  timeoutMs?: number;
+  /** ジョブのシグナル（中断された場合、残りの予約は実行せず失敗結果になる） */
+  signal?: AbortSignal;
+  /** 失敗時のスクリーンショット撮影に使用 */
+  screenshot?: ScreenshotManager;
+  /** ロガー（デフォルト: createRpaLogger()） */
+  logger?: RpaLogger;
+  /** 指定すると (reservation_id, operation) 単位で重複実行を防ぐ */
+  idempotency?: IdempotencyStore;
+  /** update ハンドラーが未定義の場合のキャンセル＋新規作成の設定 */
+  update?: UpdateOrchestratorOptions;
+  /**
+   * 指定すると、成功した操作ごとに予約システムから読み戻して反映を確認する
+   * 一致しない場合は失敗結果（SYSTEM_ERROR、メッセージの先頭に [VERIFICATION_FAILED]）、
+   * 別の予約が見つかった場合は conflict になる
+   */
+  findReservation?: FindReservationHook;
+}
+
+/** タイムアウト後、中断したハンドラーがページ操作を終えるまで待つ時間（ms） */
+const ABANDONED_HANDLER_GRACE_MS = 5000;
+
+/** 実行順序（空き枠を確保するためキャンセルを先に実行する） */
+const OPERATION_ORDER: Record<ReservationOperation, number> = {
+  cancel: 0,
+  update: 1,
+  create: 2,
+};
+
+/**
+ * 予約操作を一括実行
+ *
+ * - cancel → update → create の順に実行（同じ操作種別内はリクエスト順）
+ * - 1件の失敗で他の予約の処理は止まらない
+ * - 予約ごとにタイムアウトを適用し、失敗時はエラースクリーンショットを撮影
+ * - タイムアウトした場合は残りの予約を実行せず TIMEOUT の失敗結果にする
+ *   （中断したハンドラーがページを操作し続けている可能性があるため）
+ *
+ * @param page Playwrightのページオブジェクト
+ * @param reservations 予約リクエストリスト
+ * @param handlers 操作種別ごとのハンドラー
+ * @param options オプション
+ * @returns 予約操作結果リスト（リクエストと同じ順序）
+ *
+ * @example
+ * ```typescript
+ * createSyncCycleHandler(session, async (page, { request, signal, screenshot, logger }) => {
+ *   const reservation_results = await processReservations(page, request.reservations ?? [], {
+ *     create: async (page, reservation) => {
+ *       const reservationPage = new ReservationPage(page);
+ *       return reservationPage.create(reservation); // 予約システム側の予約IDを返す
+ *     },
+ *     cancel: async (page, reservation) => {
+ *       await new ReservationPage(page).cancel(reservation.external_reservation_id!);
+ *     },
+ *   }, { signal, screenshot, logger });
+ *
+ *   return { reservation_results };
+ * });
+ * ```
+ */
+export async function processReservations(
+  page: Page,
+  reservations: ReservationRequest[],
+  handlers: ReservationHandlers,
+  options: ProcessReservationsOptions = {}
+): Promise<ReservationResult[]> {
+  const logger = options.logger ?? createRpaLogger();
+  const results = new Map<ReservationRequest, ReservationResult>();
+  let timedOut = null as RpaTimeoutError | null;
+
+  const ordered = reservations
+    .map((reservation, index) => ({ reservation, index }))
+    .sort(
+      (a, b) =>
+        OPERATION_ORDER[a.reservation.operation] - OPERATION_ORDER[b.reservation.operation] ||
+        a.index - b.index
+    )
+    .map(({ reservation }) => reservation);
+
+  for (const reservation of ordered) {
+    const itemLogger = logger.child({
+      reservationId: reservation.reservation_id,
+      operation: reservation.operation,
+    });
+
+    if (options.signal?.aborted) {
+      results.set(reservation, reservationError(reservation, options.signal.reason));
+      continue;
+    }
+    if (timedOut) {
+      results.set(
+        reservation,
+        reservationFailed(
+          reservation,
+          'TIMEOUT',
+          `Skipped because a previous reservation timed out: ${timedOut.message}`
+        )
+      );
+      continue;
+    }
+
+    const execute = (): Promise<ReservationResult> =>
+      runReservation(page, reservation, handlers, options, itemLogger, (error) => {
+        timedOut = error;
+      });
+    const result = options.idempotency
+      ? await options.idempotency.run(reservation, execute, {
+          // 予約ごとのタイムアウト・ジョブの中断で打ち切った create / update は反映済みか不明
+          inDoubt: (r) =>
+            r.operation !== 'cancel' && (timedOut !== null || options.signal?.aborted === true),
+        })
+      : await execute();
+
+    if (result.result.status === 'success') {
+      itemLogger.info(
+        { externalReservationId: result.result.external_reservation_id },
+        'Reservation operation succeeded'
+      );
+    } else {
+      itemLogger.warn(
+        {
+          status: result.result.status,
+          errorCode: result.result.error_code,
+          screenshot: result.result.evidence_screenshot,
+        },
+        `Reservation operation ${result.result.status}: ${result.result.error_message}`
+      );
+    }
+    results.set(reservation, result);
+  }
+
+  return reservations.map((reservation) => results.get(reservation)!);
+}
+
+/**
+ * 予約1件を実行（内部用）
+ */
+async function runReservation(
+  page: Page,
+  reservation: ReservationRequest,
+  handlers: ReservationHandlers,
+  options: ProcessReservationsOptions,
+  logger: RpaLogger,
+  onTimeout: (error: RpaTimeoutError) => void
+): Promise<ReservationResult> {
+  const handler =
+    reservation.operation === 'update'
+      ? createUpdateHandler(handlers, options.update)
+      : handlers[reservation.operation];
+  if (!handler) {
+    return reservationFailed(
+      reservation,
+      'SYSTEM_ERROR',
+      `No handler registered for operation: ${reservation.operation}`
+    );
+  }
+
+  const { timeoutMs = 30000 } = options;
+  let result: ReservationResult;
+  const controller = new AbortController();
+  const onParentAbort = (): void => controller.abort(options.signal?.reason);
+  options.signal?.addEventListener('abort', onParentAbort, { once: true });
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  const context: ReservationOperationContext = { signal: controller.signal, logger };
+  const execute = async (): Promise<ReservationResult> => {
+    const handled = toReservationResult(reservation, await handler(page, reservation, context));
+    if (!options.findReservation || handled.result.status !== 'success') return handled;
+    return verifyReservation(page, reservation, handled, options.findReservation, context);
+  };
+
+  const running = execute();
+  let timeoutError = null as RpaTimeoutError | null;
+  try {
+    result = await Promise.race([
+      running,
+      new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => {
+          timeoutError = new RpaTimeoutError(
+            `Reservation ${reservation.operation} timed out after ${timeoutMs}ms`
+          );
+          controller.abort(timeoutError);
+          reject(timeoutError);
+        }, timeoutMs);
+      }),
+      new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(controller.signal.reason), {
+          once: true,
+        });
+      }),
+    ]);
+  } catch (error) {
+    result = reservationError(reservation, error);
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+    options.signal?.removeEventListener('abort', onParentAbort);
+  }
+
+  if (timeoutError) {
+    // 中断したハンドラーがページ操作を終えるまで待つ（signalを見ないハンドラーは待ちきれない）
+    onTimeout(timeoutError);
+    let graceId: ReturnType<typeof setTimeout> | null = null;
+    await Promise.race([
+      running.catch(() => {}),
+      new Promise<void>((resolve) => {
+        graceId = setTimeout(resolve, ABANDONED_HANDLER_GRACE_MS);
+      }),
+    ]);
+    if (graceId) clearTimeout(graceId);
+    logger.warn('Reservation timed out, skipping remaining reservations');
+  }
+
+  // ジョブ自体が中断された場合はページがリセットされるため撮影しない
+  // 撮影したスクリーンショットはジョブが成功しても削除せず、結果に証拠として記録する
+  if (result.result.status !== 'success' && !options.signal?.aborted && options.screenshot) {
+    const screenshotPath = await options.screenshot.captureError(
+      page,
+      `${reservation.operation}_${reservation.reservation_id}`
+    );
+    if (screenshotPath) {
+      options.screenshot.keep(screenshotPath);
+      logger.info({ screenshot: screenshotPath }, 'Captured error screenshot');
+      result = { ...result, result: { ...result.result, evidence_screenshot: screenshotPath } };
+    }
+  }
+  return result;
+}
+
+/**
+ * 操作結果を予約システムから読み戻して確認（内部用）
+ *
+ * - create / update: 予約が存在し、キャンセルされておらず、日時が一致すること
+ *   （別の予約IDが見つかった場合は conflict）
+ * - cancel / update の変更前予約: 予約が存在しないか、キャンセル済みであること
+ *
+ * 確認に失敗した場合も、操作で得た予約IDなどは結果に残す
+ */
+async function verifyReservation(
+  page: Page,
+  reservation: ReservationRequest,
+  result: ReservationResult,
+  findReservation: FindReservationHook,
+  context: ReservationOperationContext
+): Promise<ReservationResult> {
+  try {
+    return await readBack(page, reservation, result, findReservation, context);
+  } catch (error) {
+    if (!(error instanceof VerificationFailedError)) throw error;
+    const { code, message } = error.toCallbackError();
+    return {
+      ...result,
+      result: {
+        ...result.result,
+        status: 'failed',
+        error_code: code,
+        error_message: message,
+      },
+    };
+  }
+}
+
+/**
+ * 予約システムから読み戻して比較（不一致の場合は VerificationFailedError）（内部用）
+ */
+async function readBack(
+  page: Page,
+  reservation: ReservationRequest,
+  result: ReservationResult,
+  findReservation: FindReservationHook,
+  context: ReservationOperationContext
+): Promise<ReservationResult> {
+  const find = async (criteria: ReservationSearchCriteria): Promise<FoundReservation | null> => {
+    try {
+      return await findReservation(page, criteria, context);
+    } catch (error) {
+      if (context.signal.aborted) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new VerificationFailedError(`Failed to read back reservation: ${message}`, {
+        cause: error,
+      });
+    }
+  };
+  const assertCancelled = async (externalId: string | undefined, slot?: SlotInfo): Promise<void> => {
+    if (!externalId) return;
+    const found = await find({
+      external_reservation_id: externalId,
+      slot,
+      customer: reservation.customer,
+      staff: reservation.staff,
+    });
+    if (found && !found.cancelled) {
+      throw new VerificationFailedError(`Reservation ${externalId} is still active after cancel`);
+    }
+  };
+
+  if (reservation.operation === 'cancel') {
+    await assertCancelled(result.result.external_reservation_id, reservation.slot);
+    return result;
+  }
+
+  const expectedId = result.result.external_reservation_id || undefined;
+  const found = await find({
+    external_reservation_id: expectedId,
+    slot: reservation.slot,
+    customer: reservation.customer,
+    staff: reservation.staff,
+  });
+
+  if (!found) {
+    throw new VerificationFailedError(
+      `Reservation not found after ${reservation.operation}` + (expectedId ? ` (${expectedId})` : '')
+    );
+  }
+  if (found.cancelled) {
+    throw new VerificationFailedError(
+      `Reservation ${found.external_reservation_id} is cancelled after ${reservation.operation}`
+    );
+  }
+  if (expectedId && found.external_reservation_id !== expectedId) {
+    return reservationConflict(
+      reservation,
+      found.external_reservation_id,
+      `Expected reservation ${expectedId} but found ${found.external_reservation_id}`
+    );
+  }
+
+  const mismatches = (['date', 'start_at'] as const)
+    .filter((field) => found[field] !== reservation.slot[field])
+    .map((field) => `${field} expected ${reservation.slot[field]}, found ${found[field]}`);
+  if (mismatches.length > 0) {
+    throw new VerificationFailedError(`Reservation mismatch: ${mismatches.join(', ')}`);
+  }
+
+  const previousId = result.result.previous_external_reservation_id;
+  if (previousId && previousId !== found.external_reservation_id) {
+    await assertCancelled(previousId);
+  }
+
+  // ハンドラーが予約IDを返さなかった場合は読み戻した値で補完
+  return expectedId
+    ? result
+    : {
+        ...result,
+        result: { ...result.result, external_reservation_id: found.external_reservation_id },
+      };
+}
+
+/**
+ * update ハンドラーを作成
+ *
+ * ネイティブの update ハンドラーが定義されていればそれを使用し、
+ * なければ create / cancel ハンドラーを組み合わせて実行する。
+ * 途中で失敗した場合は補償処理（ロールバック）を行い、結果に以下を記録する:
+ * - external_reservation_id: 現在有効な予約システム側の予約ID
+ * - previous_external_reservation_id: 変更前の予約ID（新しい予約が作成された場合）
+ * - rollback_status: 補償処理の結果
+ *
+ * @param handlers 操作種別ごとのハンドラー
+ * @param options 実行順序・補償処理の設定
+ * @returns update ハンドラー（必要なハンドラーが未定義の場合はundefined）
+ */
+export function createUpdateHandler(
+  handlers: ReservationHandlers,
+  options: UpdateOrchestratorOptions = {}
+): ReservationHandler | undefined {
+  if (handlers.update) return handlers.update;
+
+  const { create, cancel } = handlers;
+  if (!create || !cancel) return undefined;
+
+  const { strategy = 'create_then_cancel', restore } = options;
+
+  return async (page, reservation, context) => {
+    const previousId = reservation.external_reservation_id;
+    if (!previousId) {
+      throw new ReservationNotFoundError('external_reservation_id is required for update');
+    }
+
+    const createStep: ReservationRequest = {
+      ...reservation,
+      operation: 'create',
+      external_reservation_id: undefined,
+    };
+    const cancelStep = (externalId: string): ReservationRequest => ({
+      ...reservation,
+      operation: 'cancel',
+      external_reservation_id: externalId,
+    });
+
+    if (strategy === 'create_then_cancel') {
+      const created = await runStep(create, page, createStep, context);
+      if (created.result.status !== 'success') {
+        return updateFailed(reservation, created, { external_reservation_id: previousId });
+      }
+      const newId = created.result.external_reservation_id;
+      if (!newId) {
+        // 新しい予約を特定できないため、元の予約は残し、補償処理（キャンセル）も行わない
+        return updateFailed(reservation, created, {
+          status: 'failed',
+          external_reservation_id: previousId,
+          rollback_status: 'skipped',
+          error_code: 'SYSTEM_ERROR',
+          error_message:
+            `create returned no external_reservation_id; original reservation ${previousId} was kept ` +
+            'and the new reservation may need to be cancelled manually',
+        });
+      }
+
+      const cancelled = await runStep(cancel, page, cancelStep(previousId), context);
+      if (cancelled.result.status === 'success') {
+        return updateSucceeded(reservation, newId, previousId);
+      }
+
+      // 補償処理: 作成した新しい予約をキャンセル
+      context.logger.warn({ newId }, 'Failed to cancel original reservation, rolling back');
+      const rolledBack = await runStep(cancel, page, cancelStep(newId), context);
+      if (rolledBack.result.status === 'success') {
+        return updateFailed(reservation, cancelled, {
+          external_reservation_id: previousId,
+          rollback_status: 'succeeded',
+        });
+      }
+      return updateFailed(reservation, cancelled, {
+        external_reservation_id: newId,
+        previous_external_reservation_id: previousId,
+        rollback_status: 'failed',
+        error_message:
+          `${cancelled.result.error_message} ` +
+          `(rollback failed: both ${previousId} and ${newId} exist)`,
+      });
+    }
+
+    const cancelled = await runStep(cancel, page, cancelStep(previousId), context);
+    if (cancelled.result.status !== 'success') {
+      return updateFailed(reservation, cancelled, { external_reservation_id: previousId });
+    }
+
+    const step = await runStep(create, page, createStep, context);
+    if (step.result.status === 'success' && step.result.external_reservation_id) {
+      return updateSucceeded(reservation, step.result.external_reservation_id, previousId);
+    }
+    // 予約IDが分からない場合は新しい予約を記録できないため、失敗として補償処理を行う
+    const created: ReservationResult =
+      step.result.status === 'success'
+        ? {
+            ...step,
+            result: {
+              ...step.result,
+              status: 'failed',
+              external_reservation_id: '',
+              error_code: 'SYSTEM_ERROR',
+              error_message:
+                'create returned no external_reservation_id; the new reservation may need to be cancelled manually',
+            },
+          }
+        : step;
+
+    if (!restore) {
+      return updateFailed(reservation, created, {
+        external_reservation_id: '',
+        previous_external_reservation_id: previousId,
+        rollback_status: 'skipped',
+        error_message: `${created.result.error_message} (original reservation ${previousId} was cancelled)`,
+      });
+    }
+
+    // 補償処理: キャンセルした元の予約を復元
+    context.logger.warn({ previousId }, 'Failed to create new reservation, restoring original');
+    const restored = await runStep(
+      restore,
+      page,
+      { ...reservation, external_reservation_id: previousId },
+      context
+    );
+    if (restored.result.status === 'success') {
+      return updateFailed(reservation, created, {
+        external_reservation_id: restored.result.external_reservation_id || previousId,
+        rollback_status: 'succeeded',
+      });
+    }
+    return updateFailed(reservation, created, {
+      external_reservation_id: '',
+      previous_external_reservation_id: previousId,
+      rollback_status: 'failed',
+      error_message:
+        `${created.result.error_message} ` +
+        `(original reservation ${previousId} was cancelled and could not be restored)`,
+    });
+  };
+}
+
+/**
+ * 予約一覧から予約を検索する findReservation フックを作成
+ *
+ * - external_reservation_id が分かっている場合: IDで検索（キャンセル済みの予約も返す）
+ * - 分からない場合: 予約枠・顧客情報で照合し、最も一致する予約を返す（findBestReservationMatch参照）
+ *
+ * @param listReservations 予約一覧を取得する関数
+ * @param options 顧客情報の照合設定
+ *
+ * @example
+ * ```typescript
+ * const findReservation = createFindReservationHook(async (page, { slot }) => {
+ *   return reservationListPage.fetch(slot?.date);
+ * });
+ * await processReservations(page, reservations, handlers, { findReservation });
+ * ```
+ */
+export function createFindReservationHook(
+  listReservations: ListReservationsHook,
+  options: MatchReservationsOptions = {}
+): FindReservationHook {
+  return async (page, criteria, context) => {
+    const candidates = await listReservations(page, criteria, context);
+    const externalId = criteria.external_reservation_id;
+    const found = externalId
+      ? candidates.find((candidate) => candidate.external_reservation_id === externalId)
+      : findBestReservationMatch(criteria, candidates, options)?.reservation;
+    if (!found) return null;
+    return {
+      external_reservation_id: found.external_reservation_id,
+      date: found.slot.date,
+      start_at: found.slot.start_at,
+      cancelled: found.status === 'cancelled',
+    };
+  };
+}
+
+/**
+ * update の一工程を実行し、例外も結果に変換（内部用）
+ */
+async function runStep(
+  handler: ReservationHandler,
+  page: Page,
+  reservation: ReservationRequest,
+  context: ReservationOperationContext
+): Promise<ReservationResult> {
+  try {
+    return toReservationResult(reservation, await handler(page, reservation, context));
+  } catch (error) {
+    if (context.signal.aborted) throw error;
+    return reservationError(reservation, error);
+  }
+}
+
+/**
+ * update の成功結果を構築（内部用）
+ */
+function updateSucceeded(
+  reservation: ReservationRequest,
+  externalId: string,
+  previousId: string
+): ReservationResult {
+  const result = reservationSuccess(reservation, externalId);
+  result.result.previous_external_reservation_id = previousId;
+  return result;
+}
+
+/**
+ * 失敗した工程の結果から update の失敗結果を構築（内部用）
+ * conflict の場合は競合する既存予約のIDを保持する
+ */
+function updateFailed(
+  reservation: ReservationRequest,
+  step: ReservationResult,
+  detail: Partial<ReservationResult['result']>
+): ReservationResult {
+  const result = { ...step.result, ...detail };
+  if (step.result.status === 'conflict') {
+    result.external_reservation_id = step.result.external_reservation_id;
+  }
+  return {
+    reservation_id: reservation.reservation_id,
+    operation: reservation.operation,
+    result,
+  };
+}
+
+/**
+ * ハンドラーの戻り値を予約操作結果に変換（内部用）
+ */
+function toReservationResult(
+  reservation: ReservationRequest,
+  value: string | ReservationResult | void
+): ReservationResult {
+  if (typeof value === 'string') {
+    return reservationSuccess(reservation, value);
+  }
+  return value ?? reservationSuccess(reservation, reservation.external_reservation_id);
+}
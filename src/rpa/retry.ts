@@ -0,0 +1,100 @@
+/**
+ * SmartCall RPA SDK - Retry Policy
+ *
+ * コールバック送信などのリトライ間隔を決めるポリシー
+ */
+
+/**
+ * リトライ判定に渡される情報
+ */
+export interface RetryContext {
+  /** 完了した試行回数（1始まり） */
+  attempt: number;
+  /** HTTPステータス（ネットワークエラー・タイムアウト時はnull） */
+  status: number | null;
+  /** 発生したエラー */
+  error: Error;
+  /** Retry-Afterヘッダーから算出した待機時間（ms、ヘッダーがない場合はnull） */
+  retryAfterMs: number | null;
+}
+
+/**
+ * リトライポリシー
+ */
+export interface RetryPolicy {
+  /**
+   * 次の試行までの待機時間を返す
+   * @returns 待機時間（ms）。リトライしない場合はnull
+   */
+  nextDelay(context: RetryContext): number | null;
+}
+
+export interface ExponentialBackoffOptions {
+  /** リトライ回数（デフォルト: 3） */
+  retries?: number;
+  /** 初回の待機時間（ms、デフォルト: 1秒。以降 2倍ずつ増加） */
+  baseDelayMs?: number;
+  /** 待機時間の上限（ms、デフォルト: 30秒。Retry-Afterにも適用） */
+  maxDelayMs?: number;
+  /** ジッターの割合（0〜1、デフォルト: 0.1 = ±10%） */
+  jitter?: number;
+}
+
+/**
+ * リトライで回復する可能性のあるHTTPステータスかどうか
+ * 408 / 425 / 429 / 5xx はリトライ可能、それ以外の4xxはリトライしない
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+/**
+ * Retry-Afterヘッダーの値を待機時間（ms）に変換
+ * 秒数とHTTP日付の両方の形式に対応する
+ *
+ * @returns 待機時間（ms）。解釈できない場合はnull
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * 指数バックオフ + ジッターのリトライポリシーを作成
+ *
+ * デフォルトはAPI仕様 §6（リトライ3回、1秒・2秒・4秒）に準拠
+ * リトライ不可能なステータス（4xx）ではリトライせず、Retry-Afterがあればそれに従う
+ *
+ * @example
+ * ```typescript
+ * await sendCallback(url, result, {
+ *   retryPolicy: exponentialBackoff({ retries: 5, maxDelayMs: 60000 }),
+ * });
+ * ```
+ */
+export function exponentialBackoff(options: ExponentialBackoffOptions = {}): RetryPolicy {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 30000, jitter = 0.1 } = options;
+
+  return {
+    nextDelay({ attempt, status, retryAfterMs }: RetryContext): number | null {
+      if (attempt > retries) return null;
+      if (status !== null && !isRetryableStatus(status)) return null;
+
+      if (retryAfterMs !== null) {
+        return Math.min(retryAfterMs, maxDelayMs);
+      }
+
+      const delay = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+      const factor = 1 + jitter * (Math.random() * 2 - 1);
+      return Math.max(0, Math.round(delay * factor));
+    },
+  };
+}
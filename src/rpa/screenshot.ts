@@ -115,6 +115,13 @@ export class ScreenshotManager {
     this.paths = [];
   }
 
+  /**
+   * スクリーンショットを cleanup() の削除対象から外す（証拠として保持する場合）
+   */
+  keep(filepath: string): void {
+    this.paths = this.paths.filter((path) => path !== filepath);
+  }
+
   /**
    * 収集したスクリーンショットのパス一覧を取得
    */
@@ -0,0 +1,458 @@
+/**
+ * SmartCall RPA SDK - Server Helper
+ *
+ * sync-cycleエンドポイント（POST /{provider}/sync-cycle）の共通実装
+ * リクエスト受付 → withPageでの処理実行 → コールバック送信までを行う
+ */
+
+import type { Request, Response } from 'express';
+import type { Page } from 'playwright';
+import type { ReservationSync, SyncCycleRequest } from '../types.js';
+import type { BaseBrowserSessionManager } from './session.js';
+import { SessionRegistry } from './registry.js';
+import {
+  sendCallback,
+  buildCallbackResult,
+  type CallbackOptions,
+  type CallbackResult,
+  type AvailableSlot,
+  type ExternalReservation,
+} from './callback.js';
+import { ScreenshotManager, type ScreenshotOptions } from './screenshot.js';
+import type { CallbackOutbox } from './outbox.js';
+import { applySyncDiff, type SnapshotStore, type SyncData, type SyncDiff } from './snapshot.js';
+import { createRpaLogger, type RpaLogger } from './logger.js';
+import {
+  validateExternalReservations,
+  validateSyncCycleRequest,
+  type ValidationError,
+} from './validation.js';
+import { classifyError } from './errors.js';
+import { DEFAULT_TIME_ZONE, resolveSyncWindow } from './dates.js';
+
+/**
+ * ジョブ処理に渡されるコンテキスト
+ */
+export interface SyncCycleContext {
+  /** リクエストボディ（検証済み） */
+  request: SyncCycleRequest;
+  /** ジョブ用ロガー */
+  logger: RpaLogger;
+  /** ジョブ用スクリーンショットマネージャー */
+  screenshot: ScreenshotManager;
+  /** 中断シグナル（タイムアウト時にabortされる。BasePageのsignalオプションに渡す） */
+  signal: AbortSignal;
+  /** 実効的な同期期間（省略時のデフォルトを適用済み。resolveSyncWindow参照） */
+  syncWindow: ReservationSync;
+}
+
+/**
+ * ジョブ処理の戻り値（コールバックに含めるデータ）
+ */
+export type SyncCycleJobResult = Partial<
+  Omit<CallbackResult, 'job_id' | 'external_shop_id' | 'synced_at' | 'status'>
+>;
+
+/**
+ * ジョブ処理関数
+ */
+export type SyncCycleJobHandler = (
+  page: Page,
+  context: SyncCycleContext
+) => Promise<SyncCycleJobResult>;
+
+/**
+ * 同期期間内の既存予約を予約システムから取得するフック
+ */
+export type FetchReservationsHook = (
+  page: Page,
+  range: ReservationSync,
+  context: SyncCycleContext
+) => Promise<ExternalReservation[]>;
+
+export interface SyncCycleHandlerOptions {
+  /** ページ操作のタイムアウト（ms、デフォルト: 60秒） */
+  timeoutMs?: number;
+  /** コールバック送信オプション */
+  callback?: CallbackOptions;
+  /** コールバックアウトボックス（指定時は永続化してから送信し、失敗時はバックグラウンドで再送） */
+  outbox?: CallbackOutbox;
+  /** スクリーンショットオプション */
+  screenshot?: ScreenshotOptions;
+  /** ロガー（省略時はcreateRpaLogger()） */
+  logger?: RpaLogger;
+  /**
+   * 予約システムのタイムゾーン（デフォルト: Asia/Tokyo）
+   * 同期期間のデフォルト（今日〜7日後）の計算に使用する。BaseSessionConfig.timezoneId と揃える
+   */
+  timeZone?: string;
+  /**
+   * 既存予約の取得フック
+   * ジョブ処理が reservations を返さなかった場合に、同期期間（syncWindow）を指定して呼び出される
+   */
+  fetchReservations?: FetchReservationsHook;
+  /**
+   * 同期スナップショットストア（指定時は前回同期からの差分でコールバックを送信）
+   * コールバックの送信に失敗した場合、その店舗は次回全件同期になる
+   */
+  snapshots?: SnapshotStore;
+}
+
+/**
+ * sync-cycleエンドポイントのハンドラーを作成
+ *
+ * リクエストを検証し、不正な場合はMutexを取得せずに400（フィールド単位のエラー）を返す。
+ * 受け付けた場合は即座に `{ success, job_id, message }` を返し、
+ * バックグラウンドで `session.withPage` 内のジョブ処理を実行する。
+ * SessionRegistryを渡した場合は external_shop_id ごとのセッションで実行される。
+ * 処理結果・エラーに関わらず、コールバックは必ず送信される。
+ *
+ * @param session ブラウザセッション、または店舗ごとのセッションレジストリ
+ * @param handler ジョブ処理関数
+ * @param options オプション
+ *
+ * @example
+ * ```typescript
+ * app.post(
+ *   '/beautymerit/sync-cycle',
+ *   createSyncCycleHandler(session, async (page, { request, logger }) => {
+ *     const slots = await fetchSlots(page, request);
+ *     return { available_slots: slots };
+ *   })
+ * );
+ * ```
+ */
+export function createSyncCycleHandler(
+  session: BaseBrowserSessionManager | SessionRegistry,
+  handler: SyncCycleJobHandler,
+  options: SyncCycleHandlerOptions = {}
+): (req: Request, res: Response) => void {
+  const { timeoutMs = 60000 } = options;
+  const baseLogger = options.logger ?? createRpaLogger();
+
+  return (req: Request, res: Response): void => {
+    const validation = validateSyncCycleRequest(req.body);
+    if (!validation.valid) {
+      const jobId = (req.body as { job_id?: unknown } | undefined)?.job_id;
+      baseLogger.warn({ errors: validation.errors }, 'Invalid sync-cycle request');
+      res.status(400).json({
+        success: false,
+        job_id: typeof jobId === 'string' ? jobId : null,
+        message: 'Invalid request',
+        errors: validation.errors,
+      });
+      return;
+    }
+
+    const request = validation.value;
+
+    // date_to のみ指定され今日より前の場合など、省略時のデフォルトを適用すると期間が逆転する
+    let syncWindow: ReservationSync;
+    try {
+      syncWindow = resolveSyncWindow(request, {
+        timeZone: options.timeZone ?? DEFAULT_TIME_ZONE,
+      });
+    } catch (error) {
+      const message = (error instanceof Error ? error.message : String(error)).replace(
+        /^\[SmartCall SDK\] /,
+        ''
+      );
+      const errors = [{ field: 'date_to', message }];
+      baseLogger.warn({ errors }, 'Invalid sync-cycle request');
+      res.status(400).json({
+        success: false,
+        job_id: request.job_id,
+        message: 'Invalid request',
+        errors,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      job_id: request.job_id,
+      message: 'Job accepted',
+    });
+
+    void runSyncCycleJob(session, handler, request, syncWindow, {
+      timeoutMs,
+      callback: options.callback,
+      outbox: options.outbox,
+      screenshot: options.screenshot,
+      logger: baseLogger.child({ jobId: request.job_id }),
+      fetchReservations: options.fetchReservations,
+      snapshots: options.snapshots,
+    });
+  };
+}
+
+/**
+ * ヘルスチェックエンドポイント（GET /health）を追加
+ *
+ * セッションが error 状態、またはログイン停止中（サーキットオープン）の場合は503を返す
+ * SessionRegistryを渡した場合は起動中のセッション数を返す（店舗ごとのセッションは遅延起動のため常に200）
+ *
+ * @param app Expressアプリ
+ * @param session ブラウザセッション、または店舗ごとのセッションレジストリ
+ * @param path パス（デフォルト: /health）
+ *
+ * @example
+ * ```typescript
+ * addHealthCheck(app, session);
+ * // => 200 { status: 'ok', session: 'ready', loginCircuit: { state: 'closed', ... } }
+ * ```
+ */
+export function addHealthCheck(
+  app: { get(path: string, handler: (req: Request, res: Response) => void): unknown },
+  session: BaseBrowserSessionManager | SessionRegistry,
+  path: string = '/health'
+): void {
+  app.get(path, (_req: Request, res: Response): void => {
+    if (session instanceof SessionRegistry) {
+      res.status(200).json({ status: 'ok', sessions: session.keys().length });
+      return;
+    }
+
+    const state = session.getState();
+    const loginCircuit = session.getLoginCircuitState();
+    const healthy = state !== 'error' && loginCircuit.state !== 'open';
+    res.status(healthy ? 200 : 503).json({
+      status: healthy ? 'ok' : 'unhealthy',
+      session: state,
+      loginCircuit,
+    });
+  });
+}
+
+/**
+ * ジョブを実行してコールバックを送信（内部用）
+ */
+async function runSyncCycleJob(
+  session: BaseBrowserSessionManager | SessionRegistry,
+  handler: SyncCycleJobHandler,
+  request: SyncCycleRequest,
+  syncWindow: ReservationSync,
+  options: Required<Pick<SyncCycleHandlerOptions, 'timeoutMs' | 'logger'>> &
+    Pick<
+      SyncCycleHandlerOptions,
+      'callback' | 'outbox' | 'screenshot' | 'fetchReservations' | 'snapshots'
+    >
+): Promise<void> {
+  const { logger } = options;
+  const screenshot = new ScreenshotManager(request.job_id, options.screenshot);
+  let result: CallbackResult;
+  let syncData: SyncData | null = null;
+
+  logger.info({ shopId: request.external_shop_id }, 'Sync cycle started');
+
+  try {
+    const job = async (page: Page, signal: AbortSignal): Promise<SyncCycleJobResult> => {
+      const context: SyncCycleContext = { request, logger, screenshot, signal, syncWindow };
+      let data: SyncCycleJobResult;
+      try {
+        data = await handler(page, context);
+      } catch (error) {
+        if (!signal.aborted) {
+          await screenshot.captureError(page, 'sync-cycle');
+        }
+        throw error;
+      }
+
+      if (!options.fetchReservations || data.reservations !== undefined) {
+        return data;
+      }
+
+      // 既存予約の取得に失敗しても予約操作の結果は返す（ジョブは partial_success / failed になる）
+      try {
+        const reservations = await options.fetchReservations(page, syncWindow, context);
+        logger.info(
+          { count: reservations.length, ...syncWindow },
+          'Fetched existing reservations'
+        );
+        return { ...data, reservations };
+      } catch (error) {
+        if (signal.aborted) throw error;
+        await screenshot.captureError(page, 'fetch-reservations');
+        const rpaError = classifyError(error);
+        logger.error(
+          { code: rpaError.code, error: rpaError.message },
+          'Failed to fetch reservations'
+        );
+        return { ...data, error: data.error ?? rpaError.toCallbackError() };
+      }
+    };
+
+    const data =
+      session instanceof SessionRegistry
+        ? await session.withPage(request.external_shop_id, job, options.timeoutMs)
+        : await session.withPage(job, options.timeoutMs);
+
+    // 不正な既存予約は除外する（予約操作の結果は破棄しない）
+    const sanitized = sanitizeReservations(data);
+    if (sanitized.errors.length > 0) {
+      logger.warn(
+        { dropped: sanitized.dropped, errors: sanitized.errors },
+        'Dropped invalid reservations'
+      );
+    }
+    result = buildCallbackResult(
+      request.job_id,
+      request.external_shop_id,
+      undefined,
+      sanitized.data
+    );
+    if (options.snapshots) {
+      syncData = {
+        // 一部を除外した一覧で差分を取ると削除と誤判定されるため、予約は同期しない
+        reservations:
+          sanitized.errors.length > 0
+            ? undefined
+            : (sanitized.data.reservations as ExternalReservation[] | undefined),
+        available_slots: data.available_slots as AvailableSlot[] | undefined,
+      };
+    }
+    // 失敗した予約操作やエラーがある場合は調査用にスクリーンショットを保持
+    if (result.status === 'success') {
+      await screenshot.cleanup();
+    } else {
+      screenshot.clear();
+    }
+    logger.info({ status: result.status }, 'Sync cycle completed');
+  } catch (error) {
+    const rpaError = classifyError(error);
+    result = buildCallbackResult(request.job_id, request.external_shop_id, 'failed', {
+      error: rpaError.toCallbackError(),
+    });
+    // エラー時はスクリーンショットを保持
+    screenshot.clear();
+    logger.error(
+      { code: rpaError.code, retryable: rpaError.retryable, error: rpaError.message },
+      'Sync cycle failed'
+    );
+  }
+
+  const { snapshots } = options;
+  if (!snapshots || !syncData) {
+    await deliverResult(request, result, options);
+    return;
+  }
+
+  // 同じ店舗のジョブが並行しても、前回保存したスナップショットを基準に差分を計算する
+  const shopId = request.external_shop_id;
+  const data = syncData;
+  await snapshots.withLock(shopId, async () => {
+    let diff: SyncDiff;
+    try {
+      diff = await snapshots.diff(shopId, data, {
+        full: request.full_resync,
+        window: syncWindow,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn({ error: message }, 'Failed to compute sync diff, falling back to full sync');
+      diff = { mode: 'full' };
+    }
+
+    const delivered = await deliverResult(request, applySyncDiff(result, diff), options);
+
+    // 届いたか確認できない場合、SmartCall側と状態がずれないよう次回は全件同期にする
+    if (delivered) {
+      await snapshots.save(shopId, data, diff.mode, syncWindow);
+    } else {
+      await snapshots.invalidate(shopId);
+    }
+  });
+}
+
+/**
+ * コールバックを送信（outbox指定時はoutbox経由）（内部用）
+ * outboxに永続化できなかった場合は、再送なしで直接送信する
+ * @returns 送信が完了したか（outboxで再送待ちになった場合・失敗した場合はfalse）
+ */
+async function deliverResult(
+  request: SyncCycleRequest,
+  result: CallbackResult,
+  options: Required<Pick<SyncCycleHandlerOptions, 'logger'>> &
+    Pick<SyncCycleHandlerOptions, 'callback' | 'outbox'>
+): Promise<boolean> {
+  const { logger } = options;
+  try {
+    if (options.outbox) {
+      try {
+        const entry = await options.outbox.enqueue(request.callback_url, result);
+        return entry.status === 'delivered';
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error({ error: message }, 'Callback outbox unavailable, sending without redelivery');
+      }
+    }
+    const report = await sendCallback(request.callback_url, result, {
+      logger,
+      ...options.callback,
+    });
+    logger.info(
+      { callbackId: report.callbackId, attempts: report.attempts.length },
+      'Callback delivered'
+    );
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error({ error: message }, 'Failed to send callback');
+    return false;
+  }
+}
+
+/**
+ * ジョブ結果の reservations から不正な予約を除外（内部用）
+ *
+ * 除外した場合はジョブレベルのエラー（SYSTEM_ERROR）を設定し、ジョブが success にならないようにする
+ * （ジョブが既にエラーを返している場合はそちらを優先する）
+ */
+function sanitizeReservations(data: SyncCycleJobResult): {
+  data: SyncCycleJobResult;
+  dropped: number;
+  errors: ValidationError[];
+} {
+  if (data.reservations === undefined) {
+    return { data, dropped: 0, errors: [] };
+  }
+
+  const list: unknown = data.reservations;
+  const items: unknown[] = Array.isArray(list) ? list : [];
+  const valid: ExternalReservation[] = [];
+  const errors: ValidationError[] = [];
+  if (!Array.isArray(list)) {
+    errors.push({ field: 'reservations', message: 'reservations must be an array' });
+  }
+  items.forEach((item, index) => {
+    const validation = validateExternalReservations([item]);
+    if (validation.valid) {
+      valid.push(...validation.value);
+      return;
+    }
+    for (const error of validation.errors) {
+      errors.push({
+        field: error.field.replace(/^reservations\[0\]/, `reservations[${index}]`),
+        message: error.message,
+      });
+    }
+  });
+
+  if (errors.length === 0) {
+    return { data, dropped: 0, errors };
+  }
+
+  const details = errors.map((e) => `${e.field}: ${e.message}`).join('; ');
+  return {
+    data: {
+      ...data,
+      reservations: valid,
+      error: data.error ?? {
+        code: 'SYSTEM_ERROR',
+        message: `Invalid reservations were dropped: ${details}`,
+      },
+    },
+    dropped: items.length - valid.length,
+    errors,
+  };
+}
@@ -8,6 +8,13 @@
 import { EventEmitter } from 'events';
 import { chromium, type Browser, type BrowserContext, type Page } from 'playwright';
 import { Mutex } from 'async-mutex';
+import {
+  AuthFailedError,
+  classifyError,
+  isBrowserClosedError,
+  RpaTimeoutError,
+} from './errors.js';
+import type { BusinessCalendar } from './calendar.js';
 
 /**
  * セッション状態
@@ -22,6 +29,27 @@ export type SessionState =
   | 'error' // エラー状態
   | 'closed'; // 終了済み
 
+/**
+ * リカバリー段階（軽い順）
+ */
+export type RecoveryTier =
+  | 'reload' // ページリロード
+  | 'relogin' // 同一コンテキストで再ログイン
+  | 'newContext' // コンテキスト再作成
+  | 'relaunch'; // ブラウザ再起動
+
+/**
+ * ログインサーキットブレーカーの状態
+ */
+export interface LoginCircuitState {
+  /** closed: 通常 / open: ログイン停止中 / half_open: 冷却期間終了（次の1回で判定） */
+  state: 'closed' | 'open' | 'half_open';
+  /** 連続ログイン失敗回数 */
+  consecutiveFailures: number;
+  /** ログイン停止の解除予定時刻（open時のみ） */
+  openUntil: Date | null;
+}
+
 /**
  * セッション設定
  */
@@ -38,8 +66,43 @@ export interface BaseSessionConfig {
   locale?: string;
   /** タイムゾーン（デフォルト: Asia/Tokyo） */
   timezoneId?: string;
+  /** ホームURL（タイムアウト後のページリセット時に遷移する） */
+  homeUrl?: string;
+  /**
+   * 共有ブラウザの取得関数
+   * 指定時はブラウザを起動せずこの関数から取得し、終了時もブラウザは閉じない（コンテキストのみ閉じる）
+   */
+  browserFactory?: () => Promise<Browser>;
+  /**
+   * ログイン状態（Cookie・localStorage）の保存パス
+   * 指定時はログイン成功・キープアライブ成功後に保存し、起動・リカバリー時に復元する
+   */
+  storageStatePath?: string;
+  /** リカバリー時に試行する段階（デフォルト: reload → relogin → newContext → relaunch） */
+  recoveryTiers?: RecoveryTier[];
+  /** ログインを停止するまでの連続ログイン失敗回数（デフォルト: 3、0で無効） */
+  loginFailureThreshold?: number;
+  /** ログイン停止期間（ms、デフォルト: 15分） */
+  loginCooldownMs?: number;
+  /**
+   * 店舗の営業カレンダー
+   * 指定時は営業時間外（前後30分を除く）のキープアライブを offHoursKeepAliveIntervalMs 間隔に間引く
+   */
+  businessCalendar?: BusinessCalendar;
+  /** 営業時間外のセッション維持間隔（ms、デフォルト: 30分） */
+  offHoursKeepAliveIntervalMs?: number;
 }
 
+/** デフォルト値を持たない設定項目 */
+type OptionalSessionConfigKeys =
+  | 'homeUrl'
+  | 'browserFactory'
+  | 'storageStatePath'
+  | 'businessCalendar';
+
+/** 営業時間の前後でキープアライブを通常間隔で行う余裕（分） */
+const OFF_HOURS_MARGIN_MIN = 30;
+
 /**
  * ブラウザセッション管理の抽象基底クラス
  *
@@ -70,9 +133,18 @@ export abstract class BaseBrowserSessionManager extends EventEmitter {
   protected lastActivityTime: Date = new Date();
   protected mutex = new Mutex();
   protected keepAliveTimer: ReturnType<typeof setInterval> | null = null;
-  protected config: Required<BaseSessionConfig>;
+  protected config: Required<Omit<BaseSessionConfig, OptionalSessionConfigKeys>> &
+    Pick<BaseSessionConfig, OptionalSessionConfigKeys>;
   /** セッションがクローズ中かどうか（Keep-alive競合防止用） */
   protected isClosing: boolean = false;
+  /** 現在のコンテキストが保存済みのログイン状態から復元されたか */
+  protected storageStateRestored: boolean = false;
+  /** 連続ログイン失敗回数（サーキットブレーカー用） */
+  protected consecutiveLoginFailures: number = 0;
+  /** ログイン停止の解除予定時刻（サーキットブレーカー用） */
+  protected loginCircuitOpenUntil: number | null = null;
+  /** 現在のリカバリーでログイン失敗を記録済みか（1回のリカバリーで複数回数えないため） */
+  protected loginFailureRecordedInRecovery: boolean = false;
 
   constructor(config: BaseSessionConfig = {}) {
     super();
@@ -83,6 +155,10 @@ export abstract class BaseBrowserSessionManager extends EventEmitter {
       browserArgs: ['--no-sandbox', '--disable-setuid-sandbox'],
       locale: 'ja-JP',
       timezoneId: 'Asia/Tokyo',
+      recoveryTiers: ['reload', 'relogin', 'newContext', 'relaunch'],
+      loginFailureThreshold: 3,
+      loginCooldownMs: 15 * 60 * 1000, // 15分
+      offHoursKeepAliveIntervalMs: 30 * 60 * 1000, // 30分
       ...config,
     };
   }
@@ -124,25 +200,12 @@ export abstract class BaseBrowserSessionManager extends EventEmitter {
     try {
       this.setState('starting');
 
-      // ブラウザ起動
-      this.browser = await chromium.launch({
-        headless: this.config.headless,
-        args: this.config.browserArgs,
-      });
+      // ブラウザ起動・コンテキスト作成・ページ作成
+      await this.openBrowser();
 
-      // コンテキスト作成
-      this.context = await this.browser.newContext({
-        viewport: this.config.viewport,
-        locale: this.config.locale,
-        timezoneId: this.config.timezoneId,
-      });
-
-      // ページ作成
-      this.page = await this.context.newPage();
-
-      // ログイン実行
+      // ログイン実行（保存済みのログイン状態が有効ならスキップ）
       this.setState('logging_in');
-      await this.performLogin();
+      await this.restoreOrLogin();
 
       // キープアライブ開始
       this.startKeepAlive();
@@ -162,14 +225,18 @@ export abstract class BaseBrowserSessionManager extends EventEmitter {
    * 同時に1つのリクエストのみがページを操作できる
    * 他のリクエストはMutexが解放されるまで待機する
    *
-   * @param fn ページを使用する処理
+   * タイムアウト時はsignalをabortし、ページをリセットしてからMutexを解放する
+   * （バックグラウンドで処理が継続して次のリクエストのページ操作と競合するのを防ぐ）
+   *
+   * @param fn ページを使用する処理（signalはタイムアウト時にabortされる）
    * @param timeoutMs タイムアウト時間（デフォルト: 60秒）
    */
   async withPage<T>(
-    fn: (page: Page) => Promise<T>,
+    fn: (page: Page, signal: AbortSignal) => Promise<T>,
     timeoutMs: number = 60000
   ): Promise<T> {
     const release = await this.mutex.acquire();
+    const controller = new AbortController();
     let timeoutId: ReturnType<typeof setTimeout> | null = null;
 
     try {
@@ -177,18 +244,23 @@ export abstract class BaseBrowserSessionManager extends EventEmitter {
       try {
         // タイムアウト付きで実行
         const result = await Promise.race([
-          fn(page),
+          fn(page, controller.signal),
           new Promise<never>((_, reject) => {
-            timeoutId = setTimeout(
-              () => reject(new Error(`Page operation timed out after ${timeoutMs}ms`)),
-              timeoutMs
-            );
+            timeoutId = setTimeout(() => {
+              const error = new RpaTimeoutError(`Page operation timed out after ${timeoutMs}ms`);
+              controller.abort(error);
+              reject(error);
+            }, timeoutMs);
           }),
         ]);
         return result;
       } catch (error) {
-        // ブラウザ関連のエラーならリカバリー試行
-        if (this.isBrowserError(error)) {
+        if (controller.signal.aborted) {
+          // タイムアウト: 処理中のページ操作を打ち切るためページをリセット
+          console.warn('[BaseBrowserSessionManager] Page operation timed out, resetting page...');
+          await this.resetPageInternal();
+        } else if (this.isBrowserError(error)) {
+          // ブラウザ関連のエラーならリカバリー試行
           console.warn('[BaseBrowserSessionManager] Browser error detected, recovering...');
           await this.recoverInternal();
         }
@@ -203,6 +275,45 @@ export abstract class BaseBrowserSessionManager extends EventEmitter {
     }
   }
 
+  /**
+   * ページを既知の状態にリセット（タイムアウト後に呼び出される）
+   *
+   * デフォルトでは新しいページを作成して古いページを閉じ、
+   * homeUrlが設定されていれば遷移する。必要に応じてオーバーライドする。
+   */
+  protected async resetPage(): Promise<void> {
+    if (!this.context) {
+      throw new Error('No browser context available');
+    }
+
+    const oldPage = this.page;
+    this.page = await this.context.newPage();
+    // 古いページを閉じることで、実行中のページ操作を失敗させる
+    await oldPage?.close().catch(() => {});
+
+    if (this.config.homeUrl) {
+      await this.page.goto(this.config.homeUrl);
+    }
+  }
+
+  /**
+   * ページをリセット（内部用、Mutex取得済み前提）
+   * リセットに失敗した場合はリカバリーを試行する
+   */
+  private async resetPageInternal(): Promise<void> {
+    try {
+      await this.resetPage();
+      this.emit('pageReset');
+    } catch (error) {
+      console.warn('[BaseBrowserSessionManager] Page reset failed, recovering...', error);
+      try {
+        await this.recoverInternal();
+      } catch {
+        // recoverInternalでerror状態に移行済み（次回acquirePageで再試行）
+      }
+    }
+  }
+
   /**
    * ページを取得（処理用）
    * busyステートに移行し、処理完了後にreleasePageを呼び出す必要がある
@@ -211,6 +322,8 @@ export abstract class BaseBrowserSessionManager extends EventEmitter {
   async acquirePage(): Promise<Page> {
     // error状態の場合は自動リカバリーを試行
     if (this.state === 'error') {
+      // ログイン停止中はリカバリーせずに即座に失敗させる（アカウントロック防止）
+      this.assertLoginAllowed();
       console.warn('[BaseBrowserSessionManager] Attempting auto-recovery from error state...');
       await this.recoverInternal();
     }
@@ -240,14 +353,130 @@ export abstract class BaseBrowserSessionManager extends EventEmitter {
    * ブラウザ関連のエラーかどうかを判定
    */
   protected isBrowserError(error: unknown): boolean {
-    const message = error instanceof Error ? error.message : String(error);
-    return (
-      message.includes('Target closed') ||
-      message.includes('Browser closed') ||
-      message.includes('Protocol error') ||
-      message.includes('Session closed') ||
-      message.includes('Connection closed')
-    );
+    return isBrowserClosedError(error);
+  }
+
+  /**
+   * ログインを実行（performLoginのエラーをRpaErrorに分類）
+   * 分類できないエラーはAUTH_FAILEDとして扱う
+   *
+   * リカバリー中は複数の段階でログインしても、失敗は1回のリカバリーにつき1回だけ数える
+   */
+  protected async login(): Promise<void> {
+    this.assertLoginAllowed();
+
+    try {
+      await this.performLogin();
+    } catch (error) {
+      if (!this.loginFailureRecordedInRecovery) {
+        this.recordLoginFailure();
+        this.loginFailureRecordedInRecovery = this.state === 'recovering';
+      }
+      throw classifyError(error, 'AUTH_FAILED');
+    }
+
+    this.recordLoginSuccess();
+    await this.saveStorageState();
+  }
+
+  /**
+   * ログイン停止中（サーキットオープン）ならAUTH_FAILEDエラーをスロー
+   */
+  protected assertLoginAllowed(): void {
+    const { state, openUntil } = this.getLoginCircuitState();
+    if (state === 'open') {
+      throw new AuthFailedError(
+        `Login suspended after ${this.consecutiveLoginFailures} consecutive failures ` +
+          `(until ${openUntil!.toISOString()})`
+      );
+    }
+  }
+
+  /**
+   * ログイン失敗を記録し、閾値に達したらサーキットをオープンする（内部用）
+   */
+  private recordLoginFailure(): void {
+    this.consecutiveLoginFailures++;
+
+    const threshold = this.config.loginFailureThreshold;
+    if (threshold > 0 && this.consecutiveLoginFailures >= threshold) {
+      this.loginCircuitOpenUntil = Date.now() + this.config.loginCooldownMs;
+      const circuit = this.getLoginCircuitState();
+      console.error(
+        `[BaseBrowserSessionManager] Login circuit opened after ${this.consecutiveLoginFailures} ` +
+          `consecutive failures (until ${circuit.openUntil!.toISOString()})`
+      );
+      this.emit('circuitOpen', circuit);
+    }
+  }
+
+  /**
+   * ログイン成功を記録し、サーキットをクローズする（内部用）
+   */
+  private recordLoginSuccess(): void {
+    const wasTripped = this.loginCircuitOpenUntil !== null;
+    this.consecutiveLoginFailures = 0;
+    this.loginCircuitOpenUntil = null;
+    if (wasTripped) {
+      console.log('[BaseBrowserSessionManager] Login circuit closed');
+      this.emit('circuitClosed');
+    }
+  }
+
+  /**
+   * ログインサーキットブレーカーの状態を取得（ヘルスチェック用）
+   */
+  getLoginCircuitState(): LoginCircuitState {
+    const openUntil = this.loginCircuitOpenUntil;
+    if (openUntil === null) {
+      return { state: 'closed', consecutiveFailures: this.consecutiveLoginFailures, openUntil: null };
+    }
+    return {
+      state: Date.now() < openUntil ? 'open' : 'half_open',
+      consecutiveFailures: this.consecutiveLoginFailures,
+      openUntil: new Date(openUntil),
+    };
+  }
+
+  /**
+   * 復元したログイン状態が有効ならそのまま使用し、無効ならログインする
+   * homeUrlが設定されていれば、isLoggedIn()の前に遷移する
+   */
+  protected async restoreOrLogin(): Promise<void> {
+    if (this.storageStateRestored && this.page) {
+      try {
+        if (this.config.homeUrl) {
+          await this.page.goto(this.config.homeUrl);
+        }
+        if (await this.isLoggedIn()) {
+          console.log('[BaseBrowserSessionManager] Restored login state is valid, skipping login');
+          this.emit('sessionRestored');
+          return;
+        }
+        console.log('[BaseBrowserSessionManager] Restored login state is expired, logging in...');
+      } catch (error) {
+        console.warn('[BaseBrowserSessionManager] Failed to verify restored login state:', error);
+      }
+    }
+
+    await this.login();
+  }
+
+  /**
+   * ログイン状態を保存（storageStatePath指定時のみ）
+   * 保存に失敗しても処理は継続する
+   */
+  protected async saveStorageState(): Promise<void> {
+    if (!this.config.storageStatePath || !this.context) return;
+
+    try {
+      const fs = await import('fs');
+      const path = await import('path');
+      fs.mkdirSync(path.dirname(this.config.storageStatePath), { recursive: true });
+      await this.context.storageState({ path: this.config.storageStatePath });
+    } catch (error) {
+      console.warn('[BaseBrowserSessionManager] Failed to save storage state:', error);
+    }
   }
 
   /**
@@ -259,10 +488,21 @@ export abstract class BaseBrowserSessionManager extends EventEmitter {
     }
 
     this.keepAliveTimer = setInterval(async () => {
+      if (this.isOffHoursKeepAliveDeferred()) return;
       await this.refreshSession();
     }, this.config.keepAliveIntervalMs);
   }
 
+  /**
+   * 営業時間外のためキープアライブを見送るかどうか
+   * 営業時間外でも、最終アクティビティから offHoursKeepAliveIntervalMs 経過していればリフレッシュする
+   */
+  protected isOffHoursKeepAliveDeferred(): boolean {
+    const calendar = this.config.businessCalendar;
+    if (!calendar || calendar.isOpenAt(new Date(), OFF_HOURS_MARGIN_MIN)) return false;
+    return Date.now() - this.lastActivityTime.getTime() < this.config.offHoursKeepAliveIntervalMs;
+  }
+
   /**
    * セッションをリフレッシュ（Mutex付き）
    */
@@ -291,6 +531,7 @@ export abstract class BaseBrowserSessionManager extends EventEmitter {
         await this.recoverInternal();
       } else {
         console.log('[BaseBrowserSessionManager] Keep-alive: session is valid');
+        await this.saveStorageState();
       }
 
       this.lastActivityTime = new Date();
@@ -321,47 +562,172 @@ export abstract class BaseBrowserSessionManager extends EventEmitter {
 
   /**
    * セッションをリカバリー（内部用、Mutex取得済み前提）
+   *
+   * 軽い手段から順に試行し、各段階の後にisLoggedIn()で確認する:
+   * 1. reload: ページをリロード
+   * 2. relogin: 同じコンテキストで再ログイン
+   * 3. newContext: コンテキストを作り直してログイン
+   * 4. relaunch: ブラウザを再起動してログイン
+   *
+   * 認証失敗（AUTH_FAILED）の場合は上位の段階でも回復しないため、その時点で中断する
+   * タイムアウト・ネットワークエラーによるログイン失敗は上位の段階で再試行するが、
+   * サーキットブレーカーの失敗回数は1回のリカバリーにつき1回だけ数える
    */
   protected async recoverInternal(): Promise<void> {
     if (this.state === 'recovering') return;
 
     this.setState('recovering');
+    this.loginFailureRecordedInRecovery = false;
     console.log('[BaseBrowserSessionManager] Attempting to recover session...');
 
-    try {
-      // ブラウザを閉じる
-      await this.closeBrowser();
+    const startTime = Date.now();
+    let lastError: unknown = new Error('No recovery tier available');
 
-      // 再起動
-      this.browser = await chromium.launch({
-        headless: this.config.headless,
-        args: this.config.browserArgs,
-      });
+    for (const tier of this.config.recoveryTiers) {
+      if (!this.canAttemptRecoveryTier(tier)) continue;
 
-      this.context = await this.browser.newContext({
-        viewport: this.config.viewport,
-        locale: this.config.locale,
-        timezoneId: this.config.timezoneId,
-      });
+      try {
+        console.log(`[BaseBrowserSessionManager] Recovery tier: ${tier}`);
+        await this.runRecoveryTier(tier);
 
-      this.page = await this.context.newPage();
+        if (!(await this.isLoggedIn())) {
+          throw new Error(`Not logged in after recovery tier: ${tier}`);
+        }
 
-      // 再ログイン
-      await this.performLogin();
+        this.loginFailureRecordedInRecovery = false;
+        this.emit('recovered', tier);
+        this.setState('ready');
+        console.log(
+          `[BaseBrowserSessionManager] Session recovered (tier: ${tier}, ${Date.now() - startTime}ms)`
+        );
+        return;
+      } catch (error) {
+        lastError = error;
+        this.emit('recoveryTierFailed', tier, error);
+        console.warn(
+          `[BaseBrowserSessionManager] Recovery tier "${tier}" failed:`,
+          error instanceof Error ? error.message : error
+        );
+        if (error instanceof AuthFailedError) break;
+      }
+    }
 
-      this.emit('recovered');
-      this.setState('ready');
-      console.log('[BaseBrowserSessionManager] Session recovered');
+    this.loginFailureRecordedInRecovery = false;
+    this.setState('error');
+    this.emit('error', lastError as Error);
+    console.error('[BaseBrowserSessionManager] Recovery failed:', lastError);
+    throw lastError;
+  }
+
+  /**
+   * リカバリー段階を実行可能か判定（内部用）
+   */
+  private canAttemptRecoveryTier(tier: RecoveryTier): boolean {
+    const connected = this.browser?.isConnected() ?? false;
+    switch (tier) {
+      case 'reload':
+        return connected && !!this.page && !this.page.isClosed();
+      case 'relogin':
+        return connected && !!this.context;
+      case 'newContext':
+        return connected;
+      case 'relaunch':
+        return true;
+    }
+  }
+
+  /**
+   * リカバリー段階を実行（内部用）
+   */
+  private async runRecoveryTier(tier: RecoveryTier): Promise<void> {
+    switch (tier) {
+      case 'reload':
+        await this.page!.reload();
+        return;
+
+      case 'relogin':
+        if (!this.page || this.page.isClosed()) {
+          this.page = await this.context!.newPage();
+        }
+        await this.login();
+        return;
+
+      case 'newContext':
+        try {
+          await this.context?.close();
+        } catch {
+          // エラーを無視
+        }
+        this.context = await this.createContext(this.browser!);
+        this.page = await this.context.newPage();
+        await this.restoreOrLogin();
+        return;
+
+      case 'relaunch':
+        await this.closeBrowser();
+        await this.openBrowser();
+        await this.restoreOrLogin();
+        return;
+    }
+  }
+
+  /**
+   * ブラウザを起動（browserFactory指定時は共有ブラウザを取得）
+   */
+  protected async launchBrowser(): Promise<Browser> {
+    if (this.config.browserFactory) {
+      return this.config.browserFactory();
+    }
+    return chromium.launch({
+      headless: this.config.headless,
+      args: this.config.browserArgs,
+    });
+  }
+
+  /**
+   * ブラウザコンテキストを作成
+   */
+  protected async createContext(browser: Browser): Promise<BrowserContext> {
+    const contextOptions: Parameters<Browser['newContext']>[0] = {
+      viewport: this.config.viewport,
+      locale: this.config.locale,
+      timezoneId: this.config.timezoneId,
+    };
+
+    // 保存されたログイン状態があれば復元
+    this.storageStateRestored = false;
+    if (this.config.storageStatePath) {
+      const fs = await import('fs');
+      if (fs.existsSync(this.config.storageStatePath)) {
+        contextOptions.storageState = this.config.storageStatePath;
+        this.storageStateRestored = true;
+      }
+    }
+
+    try {
+      return await browser.newContext(contextOptions);
     } catch (error) {
-      this.setState('error');
-      this.emit('error', error as Error);
-      console.error('[BaseBrowserSessionManager] Recovery failed:', error);
-      throw error;
+      if (!this.storageStateRestored) throw error;
+      // 保存ファイルが壊れている場合は復元せずに作成
+      console.warn('[BaseBrowserSessionManager] Failed to restore storage state, ignoring:', error);
+      this.storageStateRestored = false;
+      delete contextOptions.storageState;
+      return browser.newContext(contextOptions);
     }
   }
 
+  /**
+   * ブラウザ・コンテキスト・ページを準備（内部用）
+   */
+  protected async openBrowser(): Promise<void> {
+    this.browser = await this.launchBrowser();
+    this.context = await this.createContext(this.browser);
+    this.page = await this.context.newPage();
+  }
+
   /**
    * ブラウザを閉じる（内部用）
+   * 共有ブラウザ（browserFactory指定時）の場合はコンテキストのみ閉じる
    */
   protected async closeBrowser(): Promise<void> {
     try {
@@ -370,7 +736,9 @@ export abstract class BaseBrowserSessionManager extends EventEmitter {
         this.context = null;
       }
       if (this.browser) {
-        await this.browser.close();
+        if (!this.config.browserFactory) {
+          await this.browser.close();
+        }
         this.browser = null;
       }
       this.page = null;
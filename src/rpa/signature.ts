@@ -0,0 +1,219 @@
+/**
+ * SmartCall RPA SDK - Request Signing
+ *
+ * HMAC-SHA256による署名付与・検証と、sync-cycleエンドポイント用の認証ミドルウェア
+ *
+ * 署名対象は `{timestamp}.{body}`（timestampはUNIX秒）で、以下のヘッダーで送信する:
+ * - X-SmartCall-Timestamp: {timestamp}
+ * - X-SmartCall-Signature: v1={hex(HMAC-SHA256(secret, `${timestamp}.${body}`))}
+ *
+ * リプレイ対策はタイムスタンプの許容範囲（デフォルト300秒）と、検証ミドルウェアが
+ * 許容範囲内に受け付けた署名の記録（プロセス内のメモリ）による。複数プロセスで受信する場合、
+ * 別のプロセスに送られた同じリクエストは許容範囲内であれば受け付けられる
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { NextFunction, Request, Response } from 'express';
+import { getApiKey, getSigningSecret } from './credentials.js';
+import { createRpaLogger, type RpaLogger } from './logger.js';
+
+/** タイムスタンプヘッダー名 */
+export const SIGNATURE_TIMESTAMP_HEADER = 'X-SmartCall-Timestamp';
+/** 署名ヘッダー名 */
+export const SIGNATURE_HEADER = 'X-SmartCall-Signature';
+
+const SIGNATURE_VERSION = 'v1';
+
+/**
+ * 署名検証の結果
+ */
+export type SignatureVerificationResult =
+  | { valid: true }
+  | {
+      valid: false;
+      reason: 'missing_headers' | 'timestamp_out_of_range' | 'invalid_signature' | 'replayed';
+    };
+
+export interface SignatureVerifierOptions {
+  /** 共有シークレット（デフォルト: getSigningSecret()） */
+  secret?: string;
+  /** 許容するタイムスタンプのずれ（秒、デフォルト: 300秒） */
+  toleranceSec?: number;
+  /** 許容範囲内に同じ署名のリクエストを再度受けた場合に拒否する（デフォルト: true） */
+  rejectReplays?: boolean;
+  /** ロガー（デフォルト: createRpaLogger()） */
+  logger?: RpaLogger;
+}
+
+export interface ApiKeyAuthOptions {
+  /** 期待するAPIキー（デフォルト: getApiKey()） */
+  apiKey?: string;
+}
+
+/**
+ * ボディに署名してヘッダーを生成
+ *
+ * @param body 送信するボディ（JSON文字列）
+ * @param secret 共有シークレット
+ * @param timestamp UNIX秒（省略時は現在時刻）
+ * @returns 付与するヘッダー
+ */
+export function signPayload(
+  body: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  return {
+    [SIGNATURE_TIMESTAMP_HEADER]: String(timestamp),
+    [SIGNATURE_HEADER]: `${SIGNATURE_VERSION}=${computeSignature(body, secret, timestamp)}`,
+  };
+}
+
+/**
+ * 署名を検証
+ *
+ * @param body 受信したボディ（生の文字列）
+ * @param timestampHeader X-SmartCall-Timestamp ヘッダーの値
+ * @param signatureHeader X-SmartCall-Signature ヘッダーの値
+ * @param secret 共有シークレット
+ * @param toleranceSec 許容するタイムスタンプのずれ（秒、リプレイ防止）
+ */
+export function verifySignature(
+  body: string,
+  timestampHeader: string | undefined,
+  signatureHeader: string | undefined,
+  secret: string,
+  toleranceSec: number = 300
+): SignatureVerificationResult {
+  if (!timestampHeader || !signatureHeader) {
+    return { valid: false, reason: 'missing_headers' };
+  }
+
+  const timestamp = Number(timestampHeader);
+  const now = Math.floor(Date.now() / 1000);
+  if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > toleranceSec) {
+    return { valid: false, reason: 'timestamp_out_of_range' };
+  }
+
+  const expected = Buffer.from(
+    `${SIGNATURE_VERSION}=${computeSignature(body, secret, timestamp)}`
+  );
+  const actual = Buffer.from(signatureHeader);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 生のリクエストボディを保持する（express.jsonのverifyオプションに渡す）
+ * 署名検証はパース前のボディに対して行う必要があるため
+ *
+ * @example
+ * ```typescript
+ * app.use(express.json({ verify: captureRawBody }));
+ * ```
+ */
+export function captureRawBody(req: IncomingMessage, _res: unknown, buf: Buffer): void {
+  (req as IncomingMessage & { rawBody?: string }).rawBody = buf.toString('utf8');
+}
+
+/**
+ * sync-cycleリクエストの署名を検証するミドルウェアを作成
+ *
+ * - 検証に失敗した場合、許容範囲内に受け付け済みの署名を再度受けた場合は401を返す
+ * - 生のボディが保持されていない場合（captureRawBody 未設定）は設定ミスとして500を返す
+ *   （パース後のボディを再シリアライズしても署名されたバイト列と一致する保証がないため）
+ *
+ * @example
+ * ```typescript
+ * app.use(express.json({ verify: captureRawBody }));
+ * app.post('/beautymerit/sync-cycle', createSignatureVerifier(), createSyncCycleHandler(...));
+ * ```
+ */
+export function createSignatureVerifier(
+  options: SignatureVerifierOptions = {}
+): (req: Request, res: Response, next: NextFunction) => void {
+  const secret = options.secret ?? getSigningSecret();
+  if (!secret) {
+    throw new Error(
+      '[SmartCall SDK] SMARTCALL_SIGNING_SECRET environment variable is required for signature verification.'
+    );
+  }
+  const { toleranceSec = 300, rejectReplays = true } = options;
+  const logger = options.logger ?? createRpaLogger();
+  // 受け付けた署名と、タイムスタンプが許容範囲外になる時刻（UNIX秒）
+  const seen = new Map<string, number>();
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const rawBody = (req as Request & { rawBody?: string }).rawBody;
+    if (rawBody === undefined) {
+      logger.error(
+        'Raw body not captured; use express.json({ verify: captureRawBody }) before the signature verifier'
+      );
+      res.status(500).json({ success: false, message: 'Signature verification is not configured' });
+      return;
+    }
+
+    const timestamp = req.get(SIGNATURE_TIMESTAMP_HEADER);
+    const signature = req.get(SIGNATURE_HEADER);
+    let result = verifySignature(rawBody, timestamp, signature, secret, toleranceSec);
+
+    if (result.valid && rejectReplays) {
+      const now = Math.floor(Date.now() / 1000);
+      for (const [key, expiresAt] of seen) {
+        if (expiresAt < now) seen.delete(key);
+      }
+      if (seen.has(signature!)) {
+        result = { valid: false, reason: 'replayed' };
+      } else {
+        seen.set(signature!, Number(timestamp) + toleranceSec);
+      }
+    }
+
+    if (!result.valid) {
+      logger.warn({ reason: result.reason }, 'Signature verification failed');
+      res.status(401).json({ success: false, message: 'Invalid signature' });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Bearer APIキー認証ミドルウェアを作成（API仕様 §5.1）
+ * 認証に失敗した場合は401を返す
+ *
+ * @example
+ * ```typescript
+ * app.post('/beautymerit/sync-cycle', createApiKeyAuth(), createSyncCycleHandler(...));
+ * ```
+ */
+export function createApiKeyAuth(
+  options: ApiKeyAuthOptions = {}
+): (req: Request, res: Response, next: NextFunction) => void {
+  const apiKey = options.apiKey ?? getApiKey();
+  if (!apiKey) {
+    throw new Error(
+      '[SmartCall SDK] SMARTCALL_API_KEY environment variable is required for API key authentication.'
+    );
+  }
+  const expected = Buffer.from(apiKey);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const match = /^Bearer\s+(.+)$/i.exec(req.get('Authorization') ?? '');
+    const actual = Buffer.from(match?.[1] ?? '');
+
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+    next();
+  };
+}
+
+function computeSignature(body: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
@@ -0,0 +1,306 @@
+/**
+ * SmartCall RPA SDK - Slot Builder
+ *
+ * 予約システムからスクレイピングした空き時間（スタッフごとの空き区間、またはタイムグリッドのセル）を
+ * API仕様準拠の AvailableSlot[] に変換する
+ *
+ * 日付・時刻はすべて予約システム上の表示（デフォルト: JST）として扱い、ホストのタイムゾーンに依存しない
+ */
+
+import type { AvailableSlot } from './callback.js';
+import type { BusinessCalendar } from './calendar.js';
+import { DEFAULT_TIME_ZONE, formatMinutes, toZonedDateTime } from './dates.js';
+
+/**
+ * 空き区間（スタッフ・リソースごと）
+ */
+export interface OpenInterval {
+  /** 日付（YYYY-MM-DD） */
+  date: string;
+  /** 開始時刻（HH:MM） */
+  start_at: string;
+  /** 終了時刻（HH:MM、24:00可） */
+  end_at: string;
+  /** リソース名（担当者名など。省略時は店舗全体） */
+  resource_name?: string;
+  /** 同時に受け付けられる数（デフォルト: 1） */
+  stock?: number;
+}
+
+/**
+ * タイムグリッドのセル
+ */
+export interface SlotCell {
+  /** 日付（YYYY-MM-DD） */
+  date: string;
+  /** セルの開始時刻（HH:MM） */
+  time: string;
+  /** リソース名（担当者名など。省略時は店舗全体） */
+  resource_name?: string;
+  /** 空き数（0 は埋まり。○/× のグリッドなら 1 / 0） */
+  stock: number;
+}
+
+export interface BuildSlotsOptions {
+  /** メニューの所要時間（分） */
+  durationMin: number;
+  /** 開始時刻の間隔（分、デフォルト: 30）。開始時刻は0:00からこの間隔に揃える */
+  stepMin?: number;
+  /**
+   * スタッフ指定
+   * - any: 同じ日時の空きをスタッフ合算した在庫で返す（resource_name なし。デフォルト）
+   * - specific: スタッフごとの枠を返す
+   */
+  preference?: 'any' | 'specific';
+  /** 指定するとこのリソースの空きのみを対象にする */
+  resourceName?: string;
+  /** 現在時刻（デフォルト: new Date()。予約システムのタイムゾーンでこれより前の枠は除外） */
+  now?: Date;
+  /** 現在時刻から予約を受け付けるまでの猶予（分、デフォルト: 0） */
+  leadTimeMin?: number;
+  /** 予約システムのタイムゾーン（デフォルト: Asia/Tokyo） */
+  timeZone?: string;
+  /** 指定すると休業日の枠と、所要時間が営業時間内に収まらない枠を除外する */
+  calendar?: BusinessCalendar;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * 空き区間から空き枠を生成
+ *
+ * 所要時間がすべて空き区間に収まる開始時刻を枠として返す。
+ * 区間をまたぐ場合は連続していれば結合され、在庫は所要時間中の最小値になる。
+ *
+ * @example
+ * ```typescript
+ * const slots = buildSlotsFromIntervals(
+ *   [
+ *     { date: '2025-12-20', start_at: '10:00', end_at: '12:00', resource_name: '山田' },
+ *     { date: '2025-12-20', start_at: '10:30', end_at: '11:30', resource_name: '佐藤' },
+ *   ],
+ *   { durationMin: 60 }
+ * );
+ * // => 10:00(stock 1), 10:30(stock 2), 11:00(stock 1)
+ * ```
+ */
+export function buildSlotsFromIntervals(
+  intervals: OpenInterval[],
+  options: BuildSlotsOptions
+): AvailableSlot[] {
+  const timelines = new Map<string, Timeline>();
+
+  for (const interval of intervals) {
+    if (options.resourceName !== undefined && interval.resource_name !== options.resourceName) {
+      continue;
+    }
+    const start = parseMinutes(interval.start_at);
+    const end = parseMinutes(interval.end_at);
+    if (start === null || end === null || end <= start) {
+      console.warn(
+        `[SmartCall SDK] Skipping invalid interval: ${interval.date} ${interval.start_at}-${interval.end_at}`
+      );
+      continue;
+    }
+    getTimeline(timelines, interval.date, interval.resource_name).fill(
+      start,
+      end,
+      interval.stock ?? 1
+    );
+  }
+
+  return buildSlots(timelines, options);
+}
+
+/**
+ * タイムグリッドのセルから空き枠を生成
+ *
+ * @param cells セル一覧
+ * @param cellMinutes 1セルの長さ（分）
+ * @param options オプション（stepMin のデフォルトは cellMinutes）
+ *
+ * @example
+ * ```typescript
+ * // 30分単位のグリッド（○ = 1, × = 0）
+ * const slots = buildSlotsFromCells(cells, 30, { durationMin: 90, preference: 'specific' });
+ * ```
+ */
+export function buildSlotsFromCells(
+  cells: SlotCell[],
+  cellMinutes: number,
+  options: BuildSlotsOptions
+): AvailableSlot[] {
+  const timelines = new Map<string, Timeline>();
+
+  for (const cell of cells) {
+    if (options.resourceName !== undefined && cell.resource_name !== options.resourceName) {
+      continue;
+    }
+    const start = parseMinutes(cell.time);
+    if (start === null) {
+      console.warn(`[SmartCall SDK] Skipping invalid cell: ${cell.date} ${cell.time}`);
+      continue;
+    }
+    if (cell.stock > 0) {
+      getTimeline(timelines, cell.date, cell.resource_name).fill(
+        start,
+        Math.min(start + cellMinutes, MINUTES_PER_DAY),
+        cell.stock
+      );
+    }
+  }
+
+  return buildSlots(timelines, { stepMin: cellMinutes, ...options });
+}
+
+/**
+ * 空き枠の重複を除去してソート
+ * 同じ日時・リソースの枠は在庫が最大のものを残す
+ */
+export function normalizeSlots(slots: AvailableSlot[]): AvailableSlot[] {
+  const byKey = new Map<string, AvailableSlot>();
+  for (const slot of slots) {
+    const key = `${slot.date} ${slot.time} ${slot.duration_min} ${slot.resource_name ?? ''}`;
+    const existing = byKey.get(key);
+    if (!existing || slot.stock > existing.stock) {
+      byKey.set(key, slot);
+    }
+  }
+  return sortSlots([...byKey.values()]);
+}
+
+/**
+ * 空き枠を日付・時刻・リソース名の順にソート（新しい配列を返す）
+ */
+export function sortSlots(slots: AvailableSlot[]): AvailableSlot[] {
+  return [...slots].sort(
+    (a, b) =>
+      compare(a.date, b.date) ||
+      compare(a.time, b.time) ||
+      compare(a.resource_name ?? '', b.resource_name ?? '') ||
+      a.duration_min - b.duration_min
+  );
+}
+
+/**
+ * 1日・1リソース分の分単位の在庫（内部用）
+ */
+class Timeline {
+  readonly stock = new Array<number>(MINUTES_PER_DAY).fill(0);
+
+  constructor(
+    readonly date: string,
+    readonly resourceName: string | undefined
+  ) {}
+
+  /**
+   * 区間の在庫を設定（重なる区間は大きい方を採用）
+   */
+  fill(start: number, end: number, stock: number): void {
+    for (let minute = start; minute < end; minute++) {
+      this.stock[minute] = Math.max(this.stock[minute], stock);
+    }
+  }
+
+  /**
+   * 開始時刻から所要時間中の最小在庫
+   */
+  available(start: number, durationMin: number): number {
+    if (start + durationMin > MINUTES_PER_DAY) return 0;
+    let min = Infinity;
+    for (let minute = start; minute < start + durationMin; minute++) {
+      min = Math.min(min, this.stock[minute]);
+      if (min === 0) return 0;
+    }
+    return min;
+  }
+}
+
+function getTimeline(
+  timelines: Map<string, Timeline>,
+  date: string,
+  resourceName: string | undefined
+): Timeline {
+  const key = `${date}\u0000${resourceName ?? ''}`;
+  let timeline = timelines.get(key);
+  if (!timeline) {
+    timeline = new Timeline(date, resourceName);
+    timelines.set(key, timeline);
+  }
+  return timeline;
+}
+
+/**
+ * タイムラインから空き枠を生成（内部用）
+ */
+function buildSlots(timelines: Map<string, Timeline>, options: BuildSlotsOptions): AvailableSlot[] {
+  const {
+    durationMin,
+    stepMin = 30,
+    preference = 'any',
+    leadTimeMin = 0,
+    timeZone = DEFAULT_TIME_ZONE,
+    calendar,
+  } = options;
+  if (!Number.isInteger(durationMin) || durationMin <= 0) {
+    throw new Error(`[SmartCall SDK] durationMin must be a positive integer: ${durationMin}`);
+  }
+  if (!Number.isInteger(stepMin) || stepMin <= 0) {
+    throw new Error(`[SmartCall SDK] stepMin must be a positive integer: ${stepMin}`);
+  }
+
+  const cutoff = toZonedDateTime(
+    new Date((options.now ?? new Date()).getTime() + leadTimeMin * 60000),
+    timeZone
+  );
+  const slots = new Map<string, AvailableSlot>();
+
+  for (const timeline of timelines.values()) {
+    if (timeline.date < cutoff.date) continue;
+    if (calendar && !calendar.isOpenOn(timeline.date)) continue;
+    const earliest = timeline.date === cutoff.date ? cutoff.minutes : 0;
+
+    for (let start = 0; start + durationMin <= MINUTES_PER_DAY; start += stepMin) {
+      if (start < earliest) continue;
+      if (calendar && !calendar.fitsWithinHours(timeline.date, start, durationMin)) continue;
+      const stock = timeline.available(start, durationMin);
+      if (stock === 0) continue;
+
+      const time = formatMinutes(start);
+      if (preference === 'specific') {
+        const key = `${timeline.date} ${time} ${timeline.resourceName ?? ''}`;
+        slots.set(key, {
+          date: timeline.date,
+          time,
+          duration_min: durationMin,
+          stock,
+          ...(timeline.resourceName !== undefined && { resource_name: timeline.resourceName }),
+        });
+      } else {
+        const key = `${timeline.date} ${time}`;
+        const existing = slots.get(key);
+        if (existing) {
+          existing.stock += stock;
+        } else {
+          slots.set(key, { date: timeline.date, time, duration_min: durationMin, stock });
+        }
+      }
+    }
+  }
+
+  return sortSlots([...slots.values()]);
+}
+
+/**
+ * HH:MM を0:00からの分に変換（24:00可）（内部用）
+ */
+function parseMinutes(value: string): number | null {
+  const match = /^(\d{1,2}):([0-5]\d)$/.exec(value.trim());
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= MINUTES_PER_DAY ? minutes : null;
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
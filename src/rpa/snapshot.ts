@@ -0,0 +1,339 @@
+/**
+ * SmartCall RPA SDK - Sync Snapshot
+ *
+ * 店舗ごとに前回同期した reservations / available_slots を保持し、
+ * 今回の同期結果との差分（追加・変更・削除）を計算する
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { ReservationSync } from '../types.js';
+import type {
+  AvailableSlot,
+  AvailableSlotKey,
+  CallbackResult,
+  CollectionDelta,
+  ExternalReservation,
+  SyncMode,
+} from './callback.js';
+
+/**
+ * 店舗ごとの同期スナップショット
+ */
+export interface SyncSnapshot {
+  /** 店舗ID */
+  external_shop_id: string;
+  /** 最終同期日時（ISO 8601） */
+  synced_at: string;
+  /** 最後の全件同期以降の差分同期回数 */
+  delta_cycles: number;
+  /** 前回の同期開始日（YYYY-MM-DD形式。期間が変わった場合は全件同期になる） */
+  date_from?: string;
+  /** 前回の同期終了日（YYYY-MM-DD形式） */
+  date_to?: string;
+  /** 前回同期した既存予約一覧 */
+  reservations: ExternalReservation[];
+  /** 前回同期した空き枠 */
+  available_slots: AvailableSlot[];
+}
+
+/**
+ * 同期対象のデータ（ジョブが返さなかった項目は undefined）
+ */
+export interface SyncData {
+  reservations?: ExternalReservation[];
+  available_slots?: AvailableSlot[];
+}
+
+/**
+ * 同期差分
+ */
+export interface SyncDiff {
+  /** 同期モード */
+  mode: SyncMode;
+  /** 既存予約の差分（mode: delta かつ reservations を同期した場合） */
+  reservations?: CollectionDelta<ExternalReservation, string>;
+  /** 空き枠の差分（mode: delta かつ available_slots を同期した場合） */
+  available_slots?: CollectionDelta<AvailableSlot, AvailableSlotKey>;
+}
+
+export interface SnapshotStoreOptions {
+  /** 保存ディレクトリ（省略時はメモリのみ。指定すると再起動後も差分同期を継続できる） */
+  directory?: string;
+  /** この回数の差分同期ごとに全件同期する（デフォルト: 10） */
+  fullResyncEvery?: number;
+}
+
+/**
+ * 同期スナップショットストア
+ *
+ * createSyncCycleHandler の snapshots オプションに渡すと、コールバックは
+ * 前回同期からの差分（sync_mode: delta）で送信される。
+ * 以下の場合は全件（sync_mode: full）で送信される:
+ * - 店舗のスナップショットがない（初回・invalidate後）
+ * - リクエストで full_resync: true が指定された
+ * - 差分同期が fullResyncEvery 回続いた
+ * - 同期期間（date_from / date_to）が前回と異なる
+ *
+ * 同じ店舗の diff() から save() / invalidate() までは withLock() で直列化する
+ * （並行するジョブが同じスナップショットを基準に差分を計算しないように）
+ *
+ * @example
+ * ```typescript
+ * const snapshots = new SnapshotStore({ directory: '/app/data/snapshots' });
+ * app.post('/beautymerit/sync-cycle', createSyncCycleHandler(session, handler, { snapshots }));
+ *
+ * // 差分の計算からスナップショットの保存までを店舗ごとに直列化
+ * await snapshots.withLock('shop-001', async () => {
+ *   const diff = await snapshots.diff('shop-001', data, { window });
+ *   // ... コールバック送信
+ *   await snapshots.save('shop-001', data, diff.mode, window);
+ * });
+ *
+ * // 手動で全件同期させる
+ * await snapshots.invalidate('shop-001');
+ * ```
+ */
+export class SnapshotStore {
+  private snapshots = new Map<string, SyncSnapshot>();
+  private options: Required<Omit<SnapshotStoreOptions, 'directory'>> &
+    Pick<SnapshotStoreOptions, 'directory'>;
+  private writeChain: Promise<void> = Promise.resolve();
+  private locks = new Map<string, Promise<void>>();
+
+  constructor(options: SnapshotStoreOptions = {}) {
+    this.options = {
+      fullResyncEvery: 10,
+      ...options,
+    };
+  }
+
+  /**
+   * スナップショットを取得
+   * @returns スナップショット（存在しない場合はnull）
+   */
+  async get(shopId: string): Promise<SyncSnapshot | null> {
+    const cached = this.snapshots.get(shopId);
+    if (cached) return structuredClone(cached);
+    if (!this.options.directory) return null;
+
+    try {
+      const content = await fs.readFile(this.filePath(shopId), 'utf8');
+      const snapshot = JSON.parse(content) as SyncSnapshot;
+      this.snapshots.set(shopId, snapshot);
+      return structuredClone(snapshot);
+    } catch {
+      return null; // ファイルがない・壊れている場合は全件同期
+    }
+  }
+
+  /**
+   * 前回のスナップショットとの差分を計算
+   *
+   * @param shopId 店舗ID
+   * @param data 今回の同期データ
+   * @param options.full trueの場合は全件同期
+   * @param options.window 今回の同期期間（前回と異なる場合は全件同期）
+   */
+  async diff(
+    shopId: string,
+    data: SyncData,
+    options: { full?: boolean; window?: ReservationSync } = {}
+  ): Promise<SyncDiff> {
+    const previous = await this.get(shopId);
+    if (options.full || !previous || previous.delta_cycles >= this.options.fullResyncEvery) {
+      return { mode: 'full' };
+    }
+    // 期間外になった予約・空き枠を削除と誤判定しないよう、期間が変わった場合は全件同期
+    if (
+      options.window &&
+      (previous.date_from !== options.window.date_from ||
+        previous.date_to !== options.window.date_to)
+    ) {
+      return { mode: 'full' };
+    }
+
+    const result: SyncDiff = { mode: 'delta' };
+    if (data.reservations) {
+      result.reservations = diffCollection(
+        previous.reservations,
+        data.reservations,
+        (reservation) => reservation.external_reservation_id
+      );
+    }
+    if (data.available_slots) {
+      result.available_slots = diffCollection(
+        previous.available_slots,
+        data.available_slots,
+        toSlotKey
+      );
+    }
+    return result;
+  }
+
+  /**
+   * 同期結果をスナップショットとして保存（コールバック送信後に呼び出す）
+   * 同期しなかった項目（undefined）は前回の値を引き継ぐ
+   *
+   * @param shopId 店舗ID
+   * @param data 今回の同期データ
+   * @param mode 送信した同期モード
+   * @param window 今回の同期期間
+   */
+  async save(
+    shopId: string,
+    data: SyncData,
+    mode: SyncMode,
+    window?: ReservationSync
+  ): Promise<void> {
+    const previous = await this.get(shopId);
+    const snapshot: SyncSnapshot = {
+      external_shop_id: shopId,
+      synced_at: new Date().toISOString(),
+      delta_cycles: mode === 'full' ? 0 : (previous?.delta_cycles ?? 0) + 1,
+      ...(window && { date_from: window.date_from, date_to: window.date_to }),
+      reservations: data.reservations ?? previous?.reservations ?? [],
+      available_slots: data.available_slots ?? previous?.available_slots ?? [],
+    };
+    this.snapshots.set(shopId, structuredClone(snapshot));
+
+    const directory = this.options.directory;
+    if (!directory) return;
+    await this.enqueueWrite(async () => {
+      const filePath = this.filePath(shopId);
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(`${filePath}.tmp`, JSON.stringify(snapshot), 'utf8');
+      await fs.rename(`${filePath}.tmp`, filePath);
+    });
+  }
+
+  /**
+   * スナップショットを削除し、次回を全件同期にする
+   * （コールバックの送信に失敗し、SmartCall側と状態がずれた可能性がある場合など）
+   */
+  async invalidate(shopId: string): Promise<void> {
+    this.snapshots.delete(shopId);
+
+    if (!this.options.directory) return;
+    await this.enqueueWrite(() => fs.rm(this.filePath(shopId), { force: true }));
+  }
+
+  /**
+   * 店舗ごとに処理を直列化（diff() から save() / invalidate() までを囲む）
+   *
+   * @param shopId 店舗ID
+   * @param fn 実行する処理
+   */
+  async withLock<T>(shopId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(shopId) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const tail = previous.then(() => current);
+    this.locks.set(shopId, tail);
+
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+      if (this.locks.get(shopId) === tail) {
+        this.locks.delete(shopId);
+      }
+    }
+  }
+
+  /**
+   * ファイル書き込みを直列化（内部用）
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(write);
+    this.writeChain = next.catch((error) => {
+      console.error('[SmartCall SDK] Failed to write sync snapshot:', error);
+    });
+    return this.writeChain;
+  }
+
+  private filePath(shopId: string): string {
+    return join(this.options.directory!, `${encodeURIComponent(shopId)}.json`);
+  }
+}
+
+/**
+ * 差分をコールバック結果に適用
+ * mode: delta の場合、reservations / available_slots を空にして *_delta に差分を設定する
+ *
+ * @param result コールバック結果（全件）
+ * @param diff SnapshotStore.diff() の結果
+ */
+export function applySyncDiff(result: CallbackResult, diff: SyncDiff): CallbackResult {
+  if (diff.mode === 'full') {
+    return { ...result, sync_mode: 'full' };
+  }
+  return {
+    ...result,
+    sync_mode: 'delta',
+    reservations: [],
+    available_slots: [],
+    ...(diff.reservations && { reservations_delta: diff.reservations }),
+    ...(diff.available_slots && { available_slots_delta: diff.available_slots }),
+  };
+}
+
+/**
+ * 空き枠のキーを取得（内部用）
+ */
+function toSlotKey(slot: AvailableSlot): AvailableSlotKey {
+  return slot.resource_name === undefined
+    ? { date: slot.date, time: slot.time }
+    : { date: slot.date, time: slot.time, resource_name: slot.resource_name };
+}
+
+/**
+ * キーで対応付けて差分を計算（内部用）
+ */
+function diffCollection<T, K>(
+  previous: T[],
+  current: T[],
+  getKey: (item: T) => K
+): CollectionDelta<T, K> {
+  const previousByKey = new Map(previous.map((item) => [stableStringify(getKey(item)), item]));
+  const currentKeys = new Set<string>();
+  const delta: CollectionDelta<T, K> = { added: [], changed: [], removed: [] };
+
+  for (const item of current) {
+    const key = stableStringify(getKey(item));
+    currentKeys.add(key);
+    const before = previousByKey.get(key);
+    if (before === undefined) {
+      delta.added.push(item);
+    } else if (stableStringify(before) !== stableStringify(item)) {
+      delta.changed.push(item);
+    }
+  }
+
+  for (const [key, item] of previousByKey) {
+    if (!currentKeys.has(key)) {
+      delta.removed.push(getKey(item));
+    }
+  }
+  return delta;
+}
+
+/**
+ * キー順に依存しないJSON文字列化（比較用）（内部用）
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
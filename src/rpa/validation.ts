@@ -0,0 +1,440 @@
+/**
+ * SmartCall RPA SDK - Request Validation
+ *
+ * sync-cycleリクエストの実行時バリデーション（外部依存なし）
+ */
+
+import type { SyncCycleRequest } from '../types.js';
+import type { ExternalReservation } from './callback.js';
+import type { CatalogData } from './catalog.js';
+
+/**
+ * フィールド単位のバリデーションエラー
+ */
+export interface ValidationError {
+  /** フィールドパス（例: reservations[0].slot.date） */
+  field: string;
+  /** エラーメッセージ */
+  message: string;
+}
+
+/**
+ * バリデーション結果
+ */
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: ValidationError[] };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const OPERATIONS = ['create', 'update', 'cancel'];
+const PREFERENCES = ['any', 'specific'];
+const RESERVATION_STATUSES = ['confirmed', 'tentative', 'cancelled'];
+const RESERVATION_SOURCES = ['smartcall', 'direct', 'unknown'];
+
+/**
+ * YYYY-MM-DD形式の実在する日付かどうか
+ */
+export function isValidDate(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return false;
+
+  const [, y, m, d] = match.map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return (
+    date.getUTCFullYear() === y && date.getUTCMonth() === m - 1 && date.getUTCDate() === d
+  );
+}
+
+/**
+ * HH:MM形式の時刻かどうか
+ */
+export function isValidTime(value: unknown): value is string {
+  return typeof value === 'string' && TIME_PATTERN.test(value);
+}
+
+/**
+ * sync-cycleリクエストを検証
+ *
+ * @param body リクエストボディ
+ * @returns 検証結果（エラー時はフィールド単位のエラー一覧）
+ *
+ * @example
+ * ```typescript
+ * const result = validateSyncCycleRequest(req.body);
+ * if (!result.valid) {
+ *   res.status(400).json({ success: false, errors: result.errors });
+ *   return;
+ * }
+ * ```
+ */
+export function validateSyncCycleRequest(body: unknown): ValidationResult<SyncCycleRequest> {
+  const errors: ValidationError[] = [];
+  const add = (field: string, message: string): void => {
+    errors.push({ field, message });
+  };
+
+  if (!isObject(body)) {
+    return { valid: false, errors: [{ field: '', message: 'Request body must be an object' }] };
+  }
+
+  // job_id
+  if (!isNonEmptyString(body.job_id)) {
+    add('job_id', 'job_id is required');
+  } else if (!UUID_PATTERN.test(body.job_id)) {
+    add('job_id', 'job_id must be a UUID');
+  }
+
+  // external_shop_id
+  if (!isNonEmptyString(body.external_shop_id)) {
+    add('external_shop_id', 'external_shop_id is required');
+  }
+
+  // callback_url
+  if (!isNonEmptyString(body.callback_url)) {
+    add('callback_url', 'callback_url is required');
+  } else if (!isHttpUrl(body.callback_url)) {
+    add('callback_url', 'callback_url must be an http(s) URL');
+  }
+
+  // 同期期間（トップレベル / reservation_sync）
+  validateDateRange(body, '', false, add);
+  if (body.reservation_sync !== undefined) {
+    if (!isObject(body.reservation_sync)) {
+      add('reservation_sync', 'reservation_sync must be an object');
+    } else {
+      validateDateRange(body.reservation_sync, 'reservation_sync.', true, add);
+    }
+  }
+
+  if (body.full_resync !== undefined && typeof body.full_resync !== 'boolean') {
+    add('full_resync', 'full_resync must be a boolean');
+  }
+
+  // reservations
+  if (body.reservations !== undefined) {
+    if (!Array.isArray(body.reservations)) {
+      add('reservations', 'reservations must be an array');
+    } else {
+      body.reservations.forEach((item, index) => {
+        validateReservation(item, `reservations[${index}]`, add);
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, value: body as unknown as SyncCycleRequest };
+}
+
+/**
+ * 予約システム上の既存予約一覧を検証（コールバックの reservations）
+ *
+ * @example
+ * ```typescript
+ * const result = validateExternalReservations(reservations);
+ * if (!result.valid) {
+ *   logger.warn({ errors: result.errors }, 'Invalid reservations');
+ * }
+ * ```
+ */
+export function validateExternalReservations(
+  list: unknown
+): ValidationResult<ExternalReservation[]> {
+  const errors: ValidationError[] = [];
+  const add = (field: string, message: string): void => {
+    errors.push({ field, message });
+  };
+
+  if (!Array.isArray(list)) {
+    return {
+      valid: false,
+      errors: [{ field: 'reservations', message: 'reservations must be an array' }],
+    };
+  }
+
+  list.forEach((item, index) => {
+    const path = `reservations[${index}]`;
+    if (!isObject(item)) {
+      add(path, 'reservation must be an object');
+      return;
+    }
+
+    if (!isNonEmptyString(item.external_reservation_id)) {
+      add(`${path}.external_reservation_id`, 'external_reservation_id is required');
+    }
+    if (item.reservation_id !== undefined && typeof item.reservation_id !== 'string') {
+      add(`${path}.reservation_id`, 'reservation_id must be a string');
+    }
+    if (typeof item.status !== 'string' || !RESERVATION_STATUSES.includes(item.status)) {
+      add(`${path}.status`, `status must be one of: ${RESERVATION_STATUSES.join(', ')}`);
+    }
+    if (typeof item.source !== 'string' || !RESERVATION_SOURCES.includes(item.source)) {
+      add(`${path}.source`, `source must be one of: ${RESERVATION_SOURCES.join(', ')}`);
+    }
+
+    validateSlot(item.slot, `${path}.slot`, add);
+    validateMenuAndStaff(item, path, add);
+
+    if (item.customer !== undefined) {
+      if (!isObject(item.customer)) {
+        add(`${path}.customer`, 'customer must be an object');
+      } else {
+        for (const key of ['name', 'phone', 'email'] as const) {
+          if (item.customer[key] !== undefined && typeof item.customer[key] !== 'string') {
+            add(`${path}.customer.${key}`, `${key} must be a string`);
+          }
+        }
+      }
+    }
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, value: list as ExternalReservation[] };
+}
+
+/**
+ * メニュー・スタッフのカタログを検証（コールバック送信前のチェック用）
+ *
+ * IDが重複している場合もエラーになる（SmartCall側でIDを対応付けられないため）
+ *
+ * @param data カタログ
+ * @returns 検証結果（エラー時はフィールド単位のエラー一覧）
+ */
+export function validateCatalog(data: unknown): ValidationResult<CatalogData> {
+  const errors: ValidationError[] = [];
+  const add = (field: string, message: string): void => {
+    errors.push({ field, message });
+  };
+
+  if (!isObject(data)) {
+    return { valid: false, errors: [{ field: '', message: 'catalog must be an object' }] };
+  }
+
+  validateCatalogItems(data.menus, 'menus', 'external_menu_id', 'menu_name', add, (item, path) => {
+    for (const key of ['duration_min', 'price'] as const) {
+      if (item[key] !== undefined && !(typeof item[key] === 'number' && item[key] >= 0)) {
+        add(`${path}.${key}`, `${key} must be a non-negative number`);
+      }
+    }
+    if (item.category !== undefined && typeof item.category !== 'string') {
+      add(`${path}.category`, 'category must be a string');
+    }
+  });
+  validateCatalogItems(data.staff, 'staff', 'external_staff_id', 'staff_name', add, (item, path) => {
+    if (item.resource_name !== undefined && typeof item.resource_name !== 'string') {
+      add(`${path}.resource_name`, 'resource_name must be a string');
+    }
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, value: data as unknown as CatalogData };
+}
+
+/**
+ * date_from / date_to を検証（内部用）
+ */
+function validateDateRange(
+  obj: Record<string, unknown>,
+  prefix: string,
+  required: boolean,
+  add: (field: string, message: string) => void
+): void {
+  for (const key of ['date_from', 'date_to'] as const) {
+    const value = obj[key];
+    if (value === undefined) {
+      if (required) add(`${prefix}${key}`, `${key} is required`);
+    } else if (!isValidDate(value)) {
+      add(`${prefix}${key}`, `${key} must be a valid date (YYYY-MM-DD)`);
+    }
+  }
+
+  if (
+    isValidDate(obj.date_from) &&
+    isValidDate(obj.date_to) &&
+    obj.date_from > obj.date_to
+  ) {
+    add(`${prefix}date_to`, 'date_to must not be before date_from');
+  }
+}
+
+/**
+ * 予約操作を検証（内部用）
+ */
+function validateReservation(
+  item: unknown,
+  path: string,
+  add: (field: string, message: string) => void
+): void {
+  if (!isObject(item)) {
+    add(path, 'reservation must be an object');
+    return;
+  }
+
+  if (!isNonEmptyString(item.reservation_id)) {
+    add(`${path}.reservation_id`, 'reservation_id is required');
+  }
+
+  if (typeof item.operation !== 'string' || !OPERATIONS.includes(item.operation)) {
+    add(`${path}.operation`, `operation must be one of: ${OPERATIONS.join(', ')}`);
+  } else if (item.operation === 'cancel' && !isNonEmptyString(item.external_reservation_id)) {
+    add(`${path}.external_reservation_id`, 'external_reservation_id is required for cancel');
+  }
+
+  if (item.external_reservation_id !== undefined && typeof item.external_reservation_id !== 'string') {
+    add(`${path}.external_reservation_id`, 'external_reservation_id must be a string');
+  }
+  if (item.cancel_reason !== undefined && typeof item.cancel_reason !== 'string') {
+    add(`${path}.cancel_reason`, 'cancel_reason must be a string');
+  }
+
+  validateSlot(item.slot, `${path}.slot`, add);
+
+  // customer
+  if (!isObject(item.customer)) {
+    add(`${path}.customer`, 'customer is required');
+  } else {
+    if (!isNonEmptyString(item.customer.name)) {
+      add(`${path}.customer.name`, 'name is required');
+    }
+    if (!isNonEmptyString(item.customer.phone)) {
+      add(`${path}.customer.phone`, 'phone is required');
+    }
+  }
+
+  validateMenuAndStaff(item, path, add);
+}
+
+/**
+ * 予約枠を検証（内部用）
+ */
+function validateSlot(
+  slot: unknown,
+  path: string,
+  add: (field: string, message: string) => void
+): void {
+  if (!isObject(slot)) {
+    add(path, 'slot is required');
+    return;
+  }
+
+  if (!isValidDate(slot.date)) {
+    add(`${path}.date`, 'date must be a valid date (YYYY-MM-DD)');
+  }
+  if (!isValidTime(slot.start_at)) {
+    add(`${path}.start_at`, 'start_at must be a valid time (HH:MM)');
+  }
+  if (slot.end_at !== undefined && !isValidTime(slot.end_at)) {
+    add(`${path}.end_at`, 'end_at must be a valid time (HH:MM)');
+  } else if (
+    isValidTime(slot.start_at) &&
+    isValidTime(slot.end_at) &&
+    slot.end_at <= slot.start_at
+  ) {
+    add(`${path}.end_at`, 'end_at must be after start_at');
+  }
+  if (
+    slot.duration_min !== undefined &&
+    !(Number.isInteger(slot.duration_min) && (slot.duration_min as number) > 0)
+  ) {
+    add(`${path}.duration_min`, 'duration_min must be a positive integer');
+  }
+}
+
+/**
+ * メニュー・スタッフを検証（API仕様 §2.1 の必須項目）（内部用）
+ */
+function validateMenuAndStaff(
+  item: Record<string, unknown>,
+  path: string,
+  add: (field: string, message: string) => void
+): void {
+  // menu
+  if (!isObject(item.menu)) {
+    add(`${path}.menu`, 'menu is required');
+  } else {
+    for (const key of ['menu_id', 'external_menu_id', 'menu_name']) {
+      if (!isNonEmptyString(item.menu[key])) {
+        add(`${path}.menu.${key}`, `${key} is required`);
+      }
+    }
+  }
+
+  // staff
+  if (!isObject(item.staff)) {
+    add(`${path}.staff`, 'staff is required');
+  } else {
+    for (const key of ['staff_id', 'external_staff_id', 'resource_name']) {
+      if (!isNonEmptyString(item.staff[key])) {
+        add(`${path}.staff.${key}`, `${key} is required`);
+      }
+    }
+    if (typeof item.staff.preference !== 'string' || !PREFERENCES.includes(item.staff.preference)) {
+      add(`${path}.staff.preference`, `preference must be one of: ${PREFERENCES.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * カタログの項目一覧を検証（ID・名前の必須チェックとIDの重複チェック）（内部用）
+ */
+function validateCatalogItems(
+  list: unknown,
+  field: string,
+  idKey: string,
+  nameKey: string,
+  add: (field: string, message: string) => void,
+  validateItem: (item: Record<string, unknown>, path: string) => void
+): void {
+  if (!Array.isArray(list)) {
+    add(field, `${field} must be an array`);
+    return;
+  }
+
+  const seen = new Set<string>();
+  list.forEach((item, index) => {
+    const path = `${field}[${index}]`;
+    if (!isObject(item)) {
+      add(path, 'item must be an object');
+      return;
+    }
+
+    const id = item[idKey];
+    if (!isNonEmptyString(id)) {
+      add(`${path}.${idKey}`, `${idKey} is required`);
+    } else if (seen.has(id)) {
+      add(`${path}.${idKey}`, `${idKey} must be unique: ${id}`);
+    } else {
+      seen.add(id);
+    }
+    if (!isNonEmptyString(item[nameKey])) {
+      add(`${path}.${nameKey}`, `${nameKey} is required`);
+    }
+    validateItem(item, path);
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
@@ -3,6 +3,43 @@
  * v2.0 - Real-time RPA patterns (no Redis/BullMQ)
  */
 
+/**
+ * sync-cycleリクエスト（API仕様 §2.1 準拠）
+ */
+export interface SyncCycleRequest {
+  /** ジョブID（UUID形式） */
+  job_id: string;
+  /** 予約システム側の店舗ID */
+  external_shop_id: string;
+  /** 結果通知先URL */
+  callback_url: string;
+  /** 同期開始日（YYYY-MM-DD形式） */
+  date_from?: string;
+  /** 同期終了日（YYYY-MM-DD形式） */
+  date_to?: string;
+  /** 同期対象期間 */
+  reservation_sync?: ReservationSync;
+  /** 予約操作リスト */
+  reservations?: ReservationRequest[];
+  /** 差分ではなく全件を返す（SnapshotStore使用時） */
+  full_resync?: boolean;
+}
+
+/**
+ * 同期対象期間
+ */
+export interface ReservationSync {
+  /** 同期開始日（YYYY-MM-DD形式） */
+  date_from: string;
+  /** 同期終了日（YYYY-MM-DD形式） */
+  date_to: string;
+}
+
+/**
+ * 予約操作種別
+ */
+export type ReservationOperation = 'create' | 'update' | 'cancel';
+
 /**
  * 予約リクエスト情報
  */
@@ -10,7 +47,11 @@ export interface ReservationRequest {
   /** 予約ID */
   reservation_id: string;
   /** 操作種別 */
-  operation: 'create' | 'update' | 'cancel';
+  operation: ReservationOperation;
+  /** 予約システム側の予約ID（cancel時必須） */
+  external_reservation_id?: string;
+  /** キャンセル理由（cancel時） */
+  cancel_reason?: string;
   /** 顧客情報 */
   customer: CustomerInfo;
   /** 予約枠情報 */
@@ -0,0 +1,143 @@
+/**
+ * 祝日・営業カレンダーのテスト
+ *
+ * 2024〜2026年の祝日（振替休日・国民の休日を含む）を内閣府の公表値と照合し、
+ * BusinessCalendar の祝日・臨時休業・特定日の営業時間の優先順位を確認する（npm run build 後に実行）
+ */
+import { BusinessCalendar, getJapaneseHolidayName, getJapaneseHolidays } from './dist/index.js';
+
+let failed = false;
+function check(name, passed, detail) {
+  if (passed) {
+    console.log(`[Test] ✅ ${name} PASSED`);
+  } else {
+    failed = true;
+    console.log(`[Test] ❌ ${name} FAILED`, detail === undefined ? '' : JSON.stringify(detail));
+  }
+}
+
+// 内閣府「国民の祝日について」の公表値
+const EXPECTED_HOLIDAYS = {
+  2024: {
+    '2024-01-01': '元日',
+    '2024-01-08': '成人の日',
+    '2024-02-11': '建国記念の日',
+    '2024-02-12': '休日',
+    '2024-02-23': '天皇誕生日',
+    '2024-03-20': '春分の日',
+    '2024-04-29': '昭和の日',
+    '2024-05-03': '憲法記念日',
+    '2024-05-04': 'みどりの日',
+    '2024-05-05': 'こどもの日',
+    '2024-05-06': '休日',
+    '2024-07-15': '海の日',
+    '2024-08-11': '山の日',
+    '2024-08-12': '休日',
+    '2024-09-16': '敬老の日',
+    '2024-09-22': '秋分の日',
+    '2024-09-23': '休日',
+    '2024-10-14': 'スポーツの日',
+    '2024-11-03': '文化の日',
+    '2024-11-04': '休日',
+    '2024-11-23': '勤労感謝の日',
+  },
+  2025: {
+    '2025-01-01': '元日',
+    '2025-01-13': '成人の日',
+    '2025-02-11': '建国記念の日',
+    '2025-02-23': '天皇誕生日',
+    '2025-02-24': '休日',
+    '2025-03-20': '春分の日',
+    '2025-04-29': '昭和の日',
+    '2025-05-03': '憲法記念日',
+    '2025-05-04': 'みどりの日',
+    '2025-05-05': 'こどもの日',
+    '2025-05-06': '休日',
+    '2025-07-21': '海の日',
+    '2025-08-11': '山の日',
+    '2025-09-15': '敬老の日',
+    '2025-09-23': '秋分の日',
+    '2025-10-13': 'スポーツの日',
+    '2025-11-03': '文化の日',
+    '2025-11-23': '勤労感謝の日',
+    '2025-11-24': '休日',
+  },
+  2026: {
+    '2026-01-01': '元日',
+    '2026-01-12': '成人の日',
+    '2026-02-11': '建国記念の日',
+    '2026-02-23': '天皇誕生日',
+    '2026-03-20': '春分の日',
+    '2026-04-29': '昭和の日',
+    '2026-05-03': '憲法記念日',
+    '2026-05-04': 'みどりの日',
+    '2026-05-05': 'こどもの日',
+    '2026-05-06': '休日',
+    '2026-07-20': '海の日',
+    '2026-08-11': '山の日',
+    '2026-09-21': '敬老の日',
+    '2026-09-22': '休日',
+    '2026-09-23': '秋分の日',
+    '2026-10-12': 'スポーツの日',
+    '2026-11-03': '文化の日',
+    '2026-11-23': '勤労感謝の日',
+  },
+};
+
+function testHolidays() {
+  for (const [year, expected] of Object.entries(EXPECTED_HOLIDAYS)) {
+    const actual = Object.fromEntries(getJapaneseHolidays(Number(year)));
+    check(
+      `Holidays ${year}`,
+      JSON.stringify(actual) === JSON.stringify(expected),
+      { actual, expected }
+    );
+  }
+
+  check(
+    'Non-holiday returns null',
+    getJapaneseHolidayName('2025-12-24') === null && getJapaneseHolidayName('2026-09-24') === null
+  );
+}
+
+function testCalendar() {
+  const calendar = new BusinessCalendar({
+    weeklyHours: {
+      mon: [{ open: '10:00', close: '19:00' }],
+      tue: [{ open: '10:00', close: '19:00' }],
+      sat: [{ open: '09:00', close: '18:00' }],
+    },
+    holidayHours: [],
+    closures: [{ date_from: '2025-12-29', date_to: '2026-01-03' }],
+    specialHours: { '2026-01-12': [{ open: '10:00', close: '15:00' }] },
+  });
+
+  check('Open on a regular weekday', calendar.isOpenOn('2025-12-22'));
+  check('Closed on a regular day off', !calendar.isOpenOn('2025-12-24'));
+  check('Closed on a substitute holiday', !calendar.isOpenOn('2025-11-24'));
+  check('Closed on a citizens holiday', !calendar.isOpenOn('2026-09-22'));
+  check('Closed during a closure', !calendar.isOpenOn('2025-12-29'));
+  check(
+    'Special hours override a holiday',
+    JSON.stringify(calendar.getHours('2026-01-12')) ===
+      JSON.stringify([{ open: '10:00', close: '15:00' }]),
+    calendar.getHours('2026-01-12')
+  );
+  check(
+    'openDays skips closed days',
+    calendar
+      .openDays({ date_from: '2025-12-20', date_to: '2025-12-31' })
+      .join(',') === '2025-12-20,2025-12-22,2025-12-23,2025-12-27',
+    calendar.openDays({ date_from: '2025-12-20', date_to: '2025-12-31' })
+  );
+}
+
+try {
+  testHolidays();
+  testCalendar();
+} catch (error) {
+  failed = true;
+  console.error('[Test] Error:', error.message);
+}
+
+process.exit(failed ? 1 : 0);
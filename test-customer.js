@@ -0,0 +1,136 @@
+/**
+ * 顧客照合のテスト
+ *
+ * 電話番号・氏名の正規化と照合、スコア計算、既存予約の特定を確認する（npm run build 後に実行）
+ */
+import {
+  findBestReservationMatch,
+  matchName,
+  normalizeName,
+  normalizePhone,
+  scoreCustomerMatch,
+} from './dist/index.js';
+
+let failed = false;
+function check(name, passed, detail) {
+  if (passed) {
+    console.log(`[Test] ✅ ${name} PASSED`);
+  } else {
+    failed = true;
+    console.log(`[Test] ❌ ${name} FAILED`, detail === undefined ? '' : JSON.stringify(detail));
+  }
+}
+
+function testNormalizePhone() {
+  const cases = [
+    ['090-1234-5678', '09012345678'],
+    ['０９０－１２３４－５６７８', '09012345678'],
+    ['+81 90-1234-5678', '09012345678'],
+    ['+81 (0)90-1234-5678', '09012345678'],
+    ['819012345678', '09012345678'],
+    ['03(1234)5678', '0312345678'],
+    ['0120-123-456', '0120123456'],
+    ['+1 415 555 0100', '+14155550100'],
+    ['1234', null],
+    ['090-1234-567890', null],
+  ];
+  for (const [input, expected] of cases) {
+    const actual = normalizePhone(input);
+    check(`normalizePhone(${input})`, actual === expected, { actual, expected });
+  }
+}
+
+function testNormalizeName() {
+  const cases = [
+    ['山田　太郎 様', '山田 太郎'],
+    ['ﾔﾏﾀﾞ ﾀﾛｳ', 'ヤマダ タロウ'],
+    ['  Yamada   Taro ', 'yamada taro'],
+  ];
+  for (const [input, expected] of cases) {
+    const actual = normalizeName(input);
+    check(`normalizeName(${input})`, actual === expected, { actual, expected });
+  }
+}
+
+function testMatchName() {
+  const cases = [
+    ['山田太郎', '山田 太郎', 'match'],
+    ['やまだ たろう', 'ヤマダ タロウ', 'match'],
+    ['ヤマダ', 'ヤマダ タロウ', 'partial'],
+    ['山田', '山田太郎', 'partial'],
+    ['yamada taro', 'Yamada', 'partial'],
+    ['ヤ', 'ヤマダ', 'unknown'],
+    ['山', '山田太郎', 'unknown'],
+    ['山田太郎', 'ヤマダタロウ', 'unknown'],
+    ['山田太郎', 'yamada', 'unknown'],
+    ['山田 太郎', '山田 たろう', 'partial'],
+    ['山田 太郎', '山田 花子', 'mismatch'],
+    ['山田 太郎', '鈴木 花子', 'mismatch'],
+    ['ヤマダ', 'スズキ', 'mismatch'],
+    [undefined, '山田 太郎', 'unknown'],
+  ];
+  for (const [a, b, expected] of cases) {
+    const actual = matchName(a, b);
+    check(`matchName(${a}, ${b})`, actual === expected, { actual, expected });
+  }
+}
+
+function testScore() {
+  const expected = { name: '山田 太郎', phone: '090-1234-5678' };
+  const cases = [
+    ['Phone and name match', { name: '山田太郎', phone: '09012345678' }, 1],
+    ['Phone match, surname only', { name: '山田', phone: '09012345678' }, 0.8],
+    ['Phone match, name in another script', { name: 'ヤマダ タロウ', phone: '09012345678' }, 0.6],
+    ['Phone match, name mismatch', { name: '山田 花子', phone: '09012345678' }, 0],
+    ['Name match, phone mismatch', { name: '山田 太郎', phone: '08011112222' }, 0],
+    ['Name match, no phone', { name: '山田 太郎' }, 0.4],
+  ];
+  for (const [name, candidate, score] of cases) {
+    const actual = scoreCustomerMatch(expected, candidate);
+    check(`scoreCustomerMatch: ${name}`, actual.score === score, actual);
+  }
+}
+
+function testFindBestMatch() {
+  const booking = (id, startAt, customer, status = 'confirmed') => ({
+    external_reservation_id: id,
+    slot: { date: '2025-12-20', start_at: startAt },
+    customer,
+    status,
+    source: 'direct',
+  });
+  const candidates = [
+    booking('R1', '14:00', { name: '山田 花子', phone: '090-1234-5678' }),
+    booking('R2', '14:00', { name: '山田 太郎', phone: '090-1234-5678' }),
+    booking('R3', '15:00', { name: '山田 太郎', phone: '090-1234-5678' }),
+    booking('R4', '14:00', { name: '山田 太郎', phone: '090-1234-5678' }, 'cancelled'),
+  ];
+  const target = {
+    customer: { name: '山田太郎', phone: '09012345678' },
+    slot: { date: '2025-12-20', start_at: '14:00' },
+  };
+
+  const match = findBestReservationMatch(target, candidates);
+  check(
+    'findBestReservationMatch picks the same customer in the slot',
+    match?.reservation.external_reservation_id === 'R2',
+    match
+  );
+
+  const duplicate = { ...candidates[1], external_reservation_id: 'R5' };
+  const ambiguous = findBestReservationMatch(target, [candidates[1], duplicate]);
+  check('findBestReservationMatch returns null when ambiguous', ambiguous === null, ambiguous);
+}
+
+try {
+  testNormalizePhone();
+  testNormalizeName();
+  testMatchName();
+  testScore();
+  testFindBestMatch();
+} catch (error) {
+  failed = true;
+  console.error('[Test] Error:', error.message);
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,127 @@
+/**
+ * 個人情報マスクのテスト
+ *
+ * 顧客情報のフィールド・文字列中の電話番号とメールアドレスがマスクされ、
+ * 日付・ID・桁数の合わない数字列がマスクされないことを確認する（npm run build 後に実行）
+ */
+import { redact, redactString } from './dist/index.js';
+
+let failed = false;
+function check(name, passed, detail) {
+  if (passed) {
+    console.log(`[Test] ✅ ${name} PASSED`);
+  } else {
+    failed = true;
+    console.log(`[Test] ❌ ${name} FAILED`, detail === undefined ? '' : JSON.stringify(detail));
+  }
+}
+
+const MASK = '[REDACTED]';
+
+function testPatterns() {
+  const masked = [
+    ['090-1234-5678', MASK],
+    ['09012345678', MASK],
+    ['03 1234 5678', MASK],
+    ['06-6123-4567', MASK],
+    ['0466-12-3456', MASK],
+    ['0120-123-456', MASK],
+    ['+81-90-1234-5678', MASK],
+    ['+81 3-1234-5678', MASK],
+    ['電話090-1234-5678です', `電話${MASK}です`],
+    ['12:00-13:00 03-1234-5678', `12:00-13:00 ${MASK}`],
+    ['contact: taro.yamada+rpa@example.co.jp', `contact: ${MASK}`],
+  ];
+  for (const [input, expected] of masked) {
+    const actual = redactString(input);
+    check(`redactString masks ${input}`, actual === expected, { actual, expected });
+  }
+
+  const kept = [
+    'date 2025-08-05 1234',
+    '2025-08-05',
+    '012 3456 7890',
+    '090-1234-56789',
+    'id 1090-1234-5678',
+    'Reservation create timed out after 30000ms',
+  ];
+  for (const input of kept) {
+    const actual = redactString(input);
+    check(`redactString keeps ${input}`, actual === input, { actual });
+  }
+}
+
+function testObject() {
+  const input = {
+    job_id: '0312345678',
+    external_reservation_id: '09012345678',
+    callbackId: '0312345678',
+    count: '012 3456 7890',
+    message: 'Customer 090-1234-5678 not found',
+    reservations: [
+      {
+        customer: {
+          name: '山田 太郎',
+          phone: '090-1234-5678',
+          email: 'taro@example.com',
+          notes: '初めてのご来店',
+        },
+        slot: { date: '2025-12-20', start_at: '14:00' },
+      },
+    ],
+  };
+  const output = redact(input);
+
+  check(
+    'Customer fields are masked',
+    Object.values(output.reservations[0].customer).every((value) => value === MASK),
+    output.reservations[0].customer
+  );
+  check(
+    'Identifiers and slots are kept',
+    output.job_id === input.job_id &&
+      output.external_reservation_id === input.external_reservation_id &&
+      output.callbackId === input.callbackId &&
+      output.count === input.count &&
+      JSON.stringify(output.reservations[0].slot) === JSON.stringify(input.reservations[0].slot),
+    output
+  );
+  check('Phone in a message is masked', output.message === `Customer ${MASK} not found`, output);
+  check('Input is not modified', input.reservations[0].customer.name === '山田 太郎');
+
+  const circular = { customer: { phone: '090-1234-5678' } };
+  circular.self = circular;
+  const error = new Error('Failed for 090-1234-5678');
+  const redacted = redact({ circular, error });
+  check(
+    'Circular references and errors are handled',
+    redacted.circular.self === '[Circular]' &&
+      redacted.error.message === `Failed for ${MASK}`,
+    redacted
+  );
+}
+
+function testDisabled() {
+  const original = { ...process.env };
+  try {
+    process.env.LOG_UNREDACTED = 'true';
+    process.env.NODE_ENV = 'development';
+    check('LOG_UNREDACTED disables masking', redactString('090-1234-5678') === '090-1234-5678');
+
+    process.env.NODE_ENV = 'production';
+    check('LOG_UNREDACTED is ignored in production', redactString('090-1234-5678') === MASK);
+  } finally {
+    process.env = original;
+  }
+}
+
+try {
+  testPatterns();
+  testObject();
+  testDisabled();
+} catch (error) {
+  failed = true;
+  console.error('[Test] Error:', error.message);
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,222 @@
+/**
+ * 予約操作のテスト
+ *
+ * ブラウザを起動せず、スタブのハンドラーで processReservations の実行順序・冪等性
+ * （反映済みか不明な失敗の記録）・update の補償処理（ロールバック）を確認する（npm run build 後に実行）
+ */
+import { ElementNotFoundError, IdempotencyStore, processReservations } from './dist/index.js';
+
+// ログを出力しないロガー
+const logger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  debug: () => {},
+  child: () => logger,
+};
+
+let failed = false;
+function check(name, passed, detail) {
+  if (passed) {
+    console.log(`[Test] ✅ ${name} PASSED`);
+  } else {
+    failed = true;
+    console.log(`[Test] ❌ ${name} FAILED`, detail === undefined ? '' : JSON.stringify(detail));
+  }
+}
+
+function reservation(id, operation, externalId) {
+  return {
+    reservation_id: id,
+    operation,
+    external_reservation_id: externalId,
+    slot: { date: '2025-12-20', start_at: '14:00', end_at: '15:00', duration_min: 60 },
+    menu: { menu_id: 'menu_001', external_menu_id: 'EXT-MENU-001', menu_name: 'カット' },
+    staff: {
+      staff_id: 'staff_001',
+      external_staff_id: 'EXT-STAFF-001',
+      resource_name: 'スタッフA',
+      preference: 'specific',
+    },
+    customer: { name: '山田 太郎', phone: '090-1234-5678' },
+  };
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function testOrdering() {
+  const calls = [];
+  const handlers = {
+    create: async (_page, r) => {
+      calls.push(r.reservation_id);
+      return `EXT-${r.reservation_id}`;
+    },
+    cancel: async (_page, r) => {
+      calls.push(r.reservation_id);
+    },
+  };
+  const results = await processReservations(
+    null,
+    [reservation('r1', 'create'), reservation('r2', 'cancel', 'EXT-OLD')],
+    handlers,
+    { logger }
+  );
+
+  check('Ordering (cancel before create)', calls.join(',') === 'r2,r1', calls);
+  check(
+    'Results keep request order',
+    results.map((r) => r.reservation_id).join(',') === 'r1,r2' &&
+      results.every((r) => r.result.status === 'success'),
+    results
+  );
+}
+
+async function testInDoubt() {
+  const idempotency = new IdempotencyStore({ logger });
+  let runs = 0;
+  const handlers = {
+    // signal を見ずにタイムアウト後も処理を続けるハンドラー
+    create: async () => {
+      runs++;
+      await sleep(100);
+      return 'EXT-LATE';
+    },
+  };
+  const options = { logger, idempotency, timeoutMs: 20 };
+
+  const [first] = await processReservations(null, [reservation('r3', 'create')], handlers, options);
+  const [second] = await processReservations(null, [reservation('r3', 'create')], handlers, options);
+
+  check('Timed-out create fails with TIMEOUT', first.result.error_code === 'TIMEOUT', first);
+  check(
+    'Timed-out create is recorded and not re-executed',
+    runs === 1 && second.result.error_code === 'TIMEOUT',
+    { runs, second }
+  );
+}
+
+async function testHandlerErrorRetried() {
+  const idempotency = new IdempotencyStore({ logger });
+  let runs = 0;
+  const handlers = {
+    create: async () => {
+      runs++;
+      throw new ElementNotFoundError('Submit button not found');
+    },
+  };
+
+  await processReservations(null, [reservation('r4', 'create')], handlers, { logger, idempotency });
+  const [second] = await processReservations(null, [reservation('r4', 'create')], handlers, {
+    logger,
+    idempotency,
+  });
+
+  check(
+    'Handler error is not recorded and runs again',
+    runs === 2 &&
+      second.result.error_code === 'SYSTEM_ERROR' &&
+      second.result.error_message.startsWith('[ELEMENT_NOT_FOUND]'),
+    { runs, second }
+  );
+}
+
+async function testCreateThenCancelRollback() {
+  const cancelled = [];
+  const handlers = {
+    create: async () => 'EXT-NEW',
+    cancel: async (_page, r) => {
+      if (r.external_reservation_id === 'EXT-OLD') throw new Error('Cancel button disabled');
+      cancelled.push(r.external_reservation_id);
+    },
+  };
+
+  const [result] = await processReservations(
+    null,
+    [reservation('r5', 'update', 'EXT-OLD')],
+    handlers,
+    { logger }
+  );
+
+  check(
+    'create_then_cancel rolls back the new reservation',
+    result.result.status === 'failed' &&
+      result.result.rollback_status === 'succeeded' &&
+      result.result.external_reservation_id === 'EXT-OLD' &&
+      cancelled.join(',') === 'EXT-NEW',
+    { result, cancelled }
+  );
+}
+
+async function testCancelThenCreateRestore() {
+  const restored = [];
+  const handlers = {
+    create: async () => {
+      throw new Error('Slot taken');
+    },
+    cancel: async () => {},
+  };
+  const update = {
+    strategy: 'cancel_then_create',
+    restore: async (_page, r) => {
+      restored.push(r.external_reservation_id);
+      return 'EXT-RESTORED';
+    },
+  };
+
+  const [result] = await processReservations(
+    null,
+    [reservation('r6', 'update', 'EXT-OLD')],
+    handlers,
+    { logger, update }
+  );
+
+  check(
+    'cancel_then_create restores the original reservation',
+    result.result.status === 'failed' &&
+      result.result.rollback_status === 'succeeded' &&
+      result.result.external_reservation_id === 'EXT-RESTORED' &&
+      restored.join(',') === 'EXT-OLD',
+    { result, restored }
+  );
+}
+
+async function testCancelThenCreateWithoutId() {
+  const handlers = {
+    // 予約IDを返さない create
+    create: async (_page, r) => ({
+      reservation_id: r.reservation_id,
+      operation: 'create',
+      result: { status: 'success', external_reservation_id: '' },
+    }),
+    cancel: async () => {},
+  };
+
+  const [result] = await processReservations(
+    null,
+    [reservation('r7', 'update', 'EXT-OLD')],
+    handlers,
+    { logger, update: { strategy: 'cancel_then_create' } }
+  );
+
+  check(
+    'cancel_then_create without a new id fails',
+    result.result.status === 'failed' &&
+      result.result.rollback_status === 'skipped' &&
+      result.result.previous_external_reservation_id === 'EXT-OLD',
+    result
+  );
+}
+
+try {
+  await testOrdering();
+  await testInDoubt();
+  await testHandlerErrorRetried();
+  await testCreateThenCancelRollback();
+  await testCancelThenCreateRestore();
+  await testCancelThenCreateWithoutId();
+} catch (error) {
+  failed = true;
+  console.error('[Test] Error:', error.message);
+}
+
+process.exit(failed ? 1 : 0);
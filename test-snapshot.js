@@ -0,0 +1,150 @@
+/**
+ * 同期スナップショットのテスト
+ *
+ * SnapshotStore の差分計算と、全件同期になる条件（初回・full_resync・fullResyncEvery・
+ * 同期期間の変更・invalidate）を確認する（npm run build 後に実行）
+ */
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SnapshotStore, applySyncDiff } from './dist/index.js';
+
+let failed = false;
+function check(name, passed, detail) {
+  if (passed) {
+    console.log(`[Test] ✅ ${name} PASSED`);
+  } else {
+    failed = true;
+    console.log(`[Test] ❌ ${name} FAILED`, detail === undefined ? '' : JSON.stringify(detail));
+  }
+}
+
+const SHOP_ID = 'SHOP-001';
+const WINDOW = { date_from: '2025-12-18', date_to: '2025-12-25' };
+
+function booking(id, startAt, status = 'confirmed') {
+  return {
+    external_reservation_id: id,
+    slot: { date: '2025-12-20', start_at: startAt },
+    status,
+    source: 'direct',
+  };
+}
+
+function slot(time, stock) {
+  return { date: '2025-12-20', time, duration_min: 30, stock };
+}
+
+const first = {
+  reservations: [booking('R1', '10:00'), booking('R2', '11:00')],
+  available_slots: [slot('10:00', 1), slot('10:30', 2)],
+};
+const second = {
+  reservations: [booking('R1', '10:30'), booking('R3', '12:00')],
+  available_slots: [slot('10:30', 1), slot('11:00', 1)],
+};
+
+async function testDiff() {
+  const snapshots = new SnapshotStore();
+
+  const initial = await snapshots.diff(SHOP_ID, first, { window: WINDOW });
+  check('First sync is full', initial.mode === 'full', initial);
+  await snapshots.save(SHOP_ID, first, initial.mode, WINDOW);
+
+  const diff = await snapshots.diff(SHOP_ID, second, { window: WINDOW });
+  check(
+    'Reservation delta',
+    diff.mode === 'delta' &&
+      diff.reservations.added.map((r) => r.external_reservation_id).join(',') === 'R3' &&
+      diff.reservations.changed.map((r) => r.external_reservation_id).join(',') === 'R1' &&
+      diff.reservations.removed.join(',') === 'R2',
+    diff
+  );
+  check(
+    'Slot delta',
+    diff.available_slots.added.map((s) => s.time).join(',') === '11:00' &&
+      diff.available_slots.changed.map((s) => `${s.time}:${s.stock}`).join(',') === '10:30:1' &&
+      diff.available_slots.removed.map((key) => key.time).join(',') === '10:00',
+    diff
+  );
+
+  const result = applySyncDiff(
+    { job_id: 'job', external_shop_id: SHOP_ID, status: 'success', ...second },
+    diff
+  );
+  check(
+    'applySyncDiff sends only the delta',
+    result.sync_mode === 'delta' &&
+      result.reservations.length === 0 &&
+      result.available_slots.length === 0 &&
+      result.reservations_delta === diff.reservations &&
+      result.available_slots_delta === diff.available_slots,
+    result
+  );
+
+  const unchanged = await snapshots.diff(SHOP_ID, first, { window: WINDOW });
+  check(
+    'Unchanged data has an empty delta',
+    unchanged.reservations.added.length === 0 &&
+      unchanged.reservations.changed.length === 0 &&
+      unchanged.reservations.removed.length === 0,
+    unchanged
+  );
+}
+
+async function testForcedFullSync() {
+  const snapshots = new SnapshotStore({ fullResyncEvery: 2 });
+  await snapshots.save(SHOP_ID, first, 'full', WINDOW);
+
+  const requested = await snapshots.diff(SHOP_ID, second, { full: true, window: WINDOW });
+  check('full_resync forces a full sync', requested.mode === 'full', requested);
+
+  const moved = await snapshots.diff(SHOP_ID, second, {
+    window: { date_from: '2025-12-19', date_to: '2025-12-26' },
+  });
+  check('Changed sync window forces a full sync', moved.mode === 'full', moved);
+
+  await snapshots.save(SHOP_ID, second, 'delta', WINDOW);
+  const afterOne = await snapshots.diff(SHOP_ID, second, { window: WINDOW });
+  await snapshots.save(SHOP_ID, second, 'delta', WINDOW);
+  const afterTwo = await snapshots.diff(SHOP_ID, second, { window: WINDOW });
+  check(
+    'fullResyncEvery forces a full sync',
+    afterOne.mode === 'delta' && afterTwo.mode === 'full',
+    { afterOne, afterTwo }
+  );
+
+  await snapshots.invalidate(SHOP_ID);
+  const invalidated = await snapshots.diff(SHOP_ID, second, { window: WINDOW });
+  check('invalidate forces a full sync', invalidated.mode === 'full', invalidated);
+}
+
+async function testPersistence() {
+  const directory = await mkdtemp(join(tmpdir(), 'smartcall-snapshot-'));
+  try {
+    await new SnapshotStore({ directory }).save(SHOP_ID, first, 'full', WINDOW);
+
+    const restarted = new SnapshotStore({ directory });
+    const diff = await restarted.diff(SHOP_ID, first, { window: WINDOW });
+    check('Snapshot survives a restart', diff.mode === 'delta', diff);
+
+    await restarted.invalidate(SHOP_ID);
+    const afterInvalidate = await new SnapshotStore({ directory }).diff(SHOP_ID, first, {
+      window: WINDOW,
+    });
+    check('invalidate removes the saved snapshot', afterInvalidate.mode === 'full', afterInvalidate);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+try {
+  await testDiff();
+  await testForcedFullSync();
+  await testPersistence();
+} catch (error) {
+  failed = true;
+  console.error('[Test] Error:', error.message);
+}
+
+process.exit(failed ? 1 : 0);